@@ -0,0 +1,75 @@
+import { filterAircraft, getAircraft, getAircraftMetadata } from '../src/aircraft.js';
+
+describe('Aircraft', () => {
+  describe('getAircraftMetadata', () => {
+    it('should work out the metadata of a wide-body jet', () => {
+      expect(getAircraftMetadata('Airbus A350-900')).toEqual({
+        manufacturer: 'Airbus',
+        family: 'A350',
+        bodyType: 'wide',
+        engineType: 'jet',
+        discontinued: false,
+      });
+    });
+
+    it('should work out the metadata of a turboprop', () => {
+      expect(getAircraftMetadata('Aerospatiale/Alenia ATR 42-500')).toMatchObject({
+        manufacturer: 'ATR',
+        family: 'ATR 42/72',
+        engineType: 'turboprop',
+      });
+    });
+
+    it('should mark aircraft as discontinued', () => {
+      expect(
+        getAircraftMetadata('Aerospatiale/British Aerospace Concorde (discontinued)'),
+      ).toMatchObject({ family: 'Concorde', discontinued: true });
+    });
+
+    it('should return nulls for surface equipment', () => {
+      expect(getAircraftMetadata('Surface Equipment-Bus')).toEqual({
+        manufacturer: null,
+        family: null,
+        bodyType: null,
+        engineType: null,
+        discontinued: false,
+      });
+    });
+  });
+
+  describe('filterAircraft', () => {
+    it('should filter by manufacturer and family, ignoring case', () => {
+      const aircraft = filterAircraft(getAircraft(), {
+        manufacturer: 'boeing',
+        family: '737 FAMILY',
+      });
+
+      expect(aircraft.length).toBeGreaterThan(0);
+      aircraft.forEach((a) => {
+        expect(a.manufacturer).toBe('Boeing');
+        expect(a.family).toBe('737 family');
+      });
+    });
+
+    it('should filter by body type, engine type and discontinued', () => {
+      const aircraft = filterAircraft(getAircraft(), {
+        bodyType: 'wide',
+        engineType: 'jet',
+        discontinued: false,
+      });
+
+      expect(aircraft.length).toBeGreaterThan(0);
+      aircraft.forEach((a) => {
+        expect(a).toMatchObject({
+          bodyType: 'wide',
+          engineType: 'jet',
+          discontinued: false,
+        });
+      });
+    });
+
+    it('should return every aircraft when no filters are given', () => {
+      expect(filterAircraft(getAircraft(), {})).toHaveLength(getAircraft().length);
+    });
+  });
+});
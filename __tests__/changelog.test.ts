@@ -0,0 +1,185 @@
+import { writeFileSync } from 'node:fs';
+import path from 'node:path';
+import {
+  ChangelogEntry,
+  MAX_CHANGELOG_ENTRIES,
+  UnknownVersionError,
+  addChangelogEntry,
+  createChangelogEntry,
+  diffRecords,
+  getChangesSince,
+  getLatestVersion,
+  getSnapshotVersion,
+  presentChangelogEntry,
+} from '../src/changelog.js';
+import { reloadData } from '../src/data-source.js';
+import { withTemporaryDataDir } from './helpers/temporary-data-dir.js';
+
+const britishAirways = { id: 'arl_1', iata_code: 'BA', name: 'British Airways' };
+const americanAirlines = { id: 'arl_2', iata_code: 'AA', name: 'American Airlines' };
+const zoomAirlines = { id: 'arl_3', iata_code: 'Z4', name: 'Zoom Airlines' };
+
+const createEntry = (version: string, previousVersion: string): ChangelogEntry => ({
+  version,
+  previous_version: previousVersion,
+  date: '2025-03-01T02:00:00.000Z',
+  changes: { airlines: { added: [zoomAirlines], removed: [], modified: [] } },
+});
+
+describe('Changelog', () => {
+  describe('diffRecords', () => {
+    it('should find added, removed and modified records by ID', () => {
+      const changes = diffRecords(
+        [britishAirways, americanAirlines],
+        [{ ...britishAirways, name: 'BA' }, zoomAirlines],
+      );
+
+      expect(changes).toEqual({
+        added: [zoomAirlines],
+        removed: [americanAirlines],
+        modified: [
+          {
+            id: 'arl_1',
+            iata_code: 'BA',
+            fields: { name: { from: 'British Airways', to: 'BA' } },
+          },
+        ],
+      });
+    });
+
+    it('should report reassigned codes and nested changes', () => {
+      const changes = diffRecords(
+        [{ ...britishAirways, city: { name: 'London' } }],
+        [{ ...britishAirways, iata_code: 'XB', city: { name: 'Londres' } }],
+      );
+
+      expect(changes.modified[0].fields).toEqual({
+        iata_code: { from: 'BA', to: 'XB' },
+        city: { from: { name: 'London' }, to: { name: 'Londres' } },
+      });
+    });
+  });
+
+  describe('createChangelogEntry', () => {
+    const snapshot = { airports: [], airlines: [britishAirways], aircraft: [] };
+    const versions = { version: 'b', previousVersion: 'a', date: new Date(0) };
+
+    it('should only include datasets which changed', () => {
+      const entry = createChangelogEntry(
+        snapshot,
+        { ...snapshot, airlines: [britishAirways, zoomAirlines] },
+        versions,
+      );
+
+      expect(entry).toEqual({
+        version: 'b',
+        previous_version: 'a',
+        date: '1970-01-01T00:00:00.000Z',
+        changes: { airlines: { added: [zoomAirlines], removed: [], modified: [] } },
+      });
+    });
+
+    it('should return null if nothing changed', () => {
+      expect(createChangelogEntry(snapshot, snapshot, versions)).toBeNull();
+    });
+  });
+
+  describe('getSnapshotVersion', () => {
+    it('should only change when the data does', () => {
+      const contents = { airports: '[]', airlines: '[]', aircraft: '[]' };
+
+      expect(getSnapshotVersion(contents)).toBe(getSnapshotVersion({ ...contents }));
+      expect(getSnapshotVersion(contents)).not.toBe(
+        getSnapshotVersion({ ...contents, aircraft: '[{}]' }),
+      );
+    });
+  });
+
+  describe('addChangelogEntry', () => {
+    it('should drop the oldest entries', () => {
+      const changelog = Array.from({ length: MAX_CHANGELOG_ENTRIES }, (_, index) =>
+        createEntry(String(index + 1), String(index)),
+      );
+
+      const updated = addChangelogEntry(changelog, createEntry('new', '365'));
+
+      expect(updated).toHaveLength(MAX_CHANGELOG_ENTRIES);
+      expect(updated[0].version).toBe('2');
+      expect(updated.at(-1)?.version).toBe('new');
+    });
+  });
+
+  describe('presentChangelogEntry', () => {
+    it('should convert entries to camel case', () => {
+      const presented = presentChangelogEntry({
+        ...createEntry('b', 'a'),
+        changes: {
+          airlines: {
+            added: [{ ...zoomAirlines, icao_code: null }],
+            removed: [],
+            modified: [
+              {
+                id: 'arl_1',
+                iata_code: 'BA',
+                fields: { icao_code: { from: null, to: 'BAW' } },
+              },
+            ],
+          },
+        },
+      });
+
+      expect(presented).toEqual({
+        version: 'b',
+        previousVersion: 'a',
+        date: '2025-03-01T02:00:00.000Z',
+        changes: {
+          airlines: {
+            added: [
+              { id: 'arl_3', iataCode: 'Z4', icaoCode: null, name: 'Zoom Airlines' },
+            ],
+            removed: [],
+            modified: [
+              {
+                id: 'arl_1',
+                iataCode: 'BA',
+                fields: { icaoCode: { from: null, to: 'BAW' } },
+              },
+            ],
+          },
+        },
+      });
+    });
+  });
+
+  describe('getChangesSince', () => {
+    const getDataDir = withTemporaryDataDir();
+
+    beforeEach(async () => {
+      writeFileSync(
+        path.join(getDataDir(), 'changelog.json'),
+        JSON.stringify([createEntry('v2', 'v1'), createEntry('v3', 'v2')]),
+      );
+      await reloadData();
+    });
+
+    it('should return the changes after a version', () => {
+      expect(getChangesSince('v2').map((entry) => entry.version)).toEqual(['v3']);
+      expect(getChangesSince('v3')).toEqual([]);
+    });
+
+    it('should return every change since the oldest version, or without a version', () => {
+      expect(getChangesSince('v1')).toHaveLength(2);
+      expect(getChangesSince()).toHaveLength(2);
+    });
+
+    it('should throw an error for an unknown version', () => {
+      expect(() => getChangesSince('v0')).toThrow(
+        new UnknownVersionError('Unknown changelog version: v0'),
+      );
+    });
+
+    it('should return the latest version', () => {
+      expect(getLatestVersion()).toBe('v3');
+    });
+  });
+});
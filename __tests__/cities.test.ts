@@ -0,0 +1,37 @@
+import { expandCityCodes, getCities, getCityAirports } from '../src/cities.js';
+
+describe('Cities', () => {
+  describe('getCities', () => {
+    it('should return each city once, sorted by name', () => {
+      const cities = getCities();
+      const iataCodes = cities.map((city) => city.iataCode);
+
+      expect(iataCodes).toEqual(expect.arrayContaining(['LON', 'NYC', 'TYO']));
+      expect(new Set(iataCodes).size).toBe(iataCodes.length);
+      expect(cities.map((city) => city.name)).toEqual(
+        [...cities.map((city) => city.name)].sort((a, b) => a.localeCompare(b, 'en')),
+      );
+    });
+  });
+
+  describe('getCityAirports', () => {
+    it('should return the airports in a city, ignoring case', () => {
+      const iataCodes = getCityAirports('lon').map((airport) => airport.iataCode);
+
+      expect(iataCodes).toEqual(expect.arrayContaining(['LHR', 'LGW', 'LCY', 'STN']));
+    });
+
+    it('should return an empty array for codes which are not cities', () => {
+      expect(getCityAirports('XXX')).toEqual([]);
+    });
+  });
+
+  describe('expandCityCodes', () => {
+    it('should replace city codes with airport codes and leave others alone', () => {
+      const codes = expandCityCodes(['LON', 'JFK', 'XXX']);
+
+      expect(codes).toEqual(expect.arrayContaining(['LHR', 'LGW', 'JFK', 'XXX']));
+      expect(codes).not.toContain('LON');
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { ApiError, createClient } from '../src/client/index.js';
+import { airlinesDataset, airportsDataset } from '../src/datasets.js';
+import { findByIataCode, searchDataset } from '../src/search.js';
+
+// Responds to each request with the next of the given responses, recording the
+// requests made
+const createFetch = (
+  responses: ((init?: RequestInit) => Response | Promise<Response>)[],
+) => {
+  const requests: { url: string; init?: RequestInit }[] = [];
+  const fetch = async (url: string | URL | Request, init?: RequestInit) => {
+    requests.push({ url: String(url), init });
+    const respond = responses.shift();
+    if (!respond) {
+      throw new Error('No more responses');
+    }
+    return respond(init);
+  };
+  return { fetch: fetch as typeof globalThis.fetch, requests };
+};
+
+const jsonResponse =
+  (body: unknown, init: ResponseInit = {}) =>
+  () =>
+    new Response(JSON.stringify(body), init);
+
+describe('Client', () => {
+  describe('offline', () => {
+    const client = createClient({ offline: true });
+
+    afterAll(async () => {
+      await client.close();
+    });
+
+    it('should look up records the same way as the API', async () => {
+      expect(await client.airports.get('lhr')).toEqual(
+        findByIataCode(airportsDataset, 'LHR'),
+      );
+      expect(await client.airlines.get('9Z')).toBeNull();
+
+      const { data } = await client.airlines.list({ query: 'B', fields: ['iataCode'] });
+      expect(data).toEqual(
+        searchDataset(airlinesDataset, { query: 'B' }).map(({ iataCode }) => ({
+          iataCode,
+        })),
+      );
+    });
+
+    it('should decode codes and text', async () => {
+      const { notFound } = await client.airports.list({ codes: ['LHR', 'XXX'] });
+      expect(notFound).toEqual(['XXX']);
+
+      const decodedText = await client.decodeText('BA117 LHR-JFK');
+      expect(decodedText.airports.map(({ iataCode }) => iataCode)).toEqual([
+        'LHR',
+        'JFK',
+      ]);
+    });
+
+    it('should cache whole datasets', async () => {
+      const countries = await client.countries.all();
+
+      expect(countries.length).toBeGreaterThan(100);
+      expect(await client.countries.all()).toBe(countries);
+    });
+
+    it('should throw API errors', async () => {
+      await expect(client.route('LHR', 'XXX')).rejects.toThrow(
+        new ApiError('No airport found with IATA code XXX', 404),
+      );
+    });
+  });
+
+  describe('over HTTP', () => {
+    it('should send query parameters and unwrap responses', async () => {
+      const { fetch, requests } = createFetch([
+        jsonResponse({ data: [{ iataCode: 'LHR' }] }),
+      ]);
+      const client = createClient({ baseUrl: 'https://iata.example.com/', fetch });
+
+      await client.airports.list({ codes: ['LHR', 'LGW'], include: ['country'] });
+
+      expect(requests[0].url).toBe(
+        'https://iata.example.com/airports?codes=LHR%2CLGW&include=country',
+      );
+    });
+
+    it('should retry temporary errors', async () => {
+      const { fetch, requests } = createFetch([
+        () => {
+          throw new TypeError('fetch failed');
+        },
+        jsonResponse({ message: 'Unavailable' }, { status: 503 }),
+        jsonResponse({ data: { iataCode: 'BA' } }),
+      ]);
+      const client = createClient({
+        baseUrl: 'https://iata.example.com',
+        fetch,
+        retryDelayMs: 1,
+      });
+
+      expect(await client.airlines.get('BA')).toEqual({ iataCode: 'BA' });
+      expect(requests).toHaveLength(3);
+    });
+
+    it('should give up after the last retry', async () => {
+      const { fetch, requests } = createFetch([
+        jsonResponse({ message: 'Unavailable' }, { status: 503 }),
+        jsonResponse({ message: 'Unavailable' }, { status: 503 }),
+      ]);
+      const client = createClient({
+        baseUrl: 'https://iata.example.com',
+        fetch,
+        retries: 1,
+        retryDelayMs: 1,
+      });
+
+      await expect(client.airlines.get('BA')).rejects.toThrow(
+        new ApiError('Unavailable', 503),
+      );
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should retry requests which time out', async () => {
+      const { fetch, requests } = createFetch([
+        // Only responds by failing once the request is aborted
+        (init) =>
+          new Promise((_resolve, reject) =>
+            init?.signal?.addEventListener('abort', () => reject(init.signal?.reason)),
+          ),
+        jsonResponse({ data: { iataCode: 'BA' } }),
+      ]);
+      const client = createClient({
+        baseUrl: 'https://iata.example.com',
+        fetch,
+        retryDelayMs: 1,
+        timeoutMs: 10,
+      });
+
+      expect(await client.airlines.get('BA')).toEqual({ iataCode: 'BA' });
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should only download a cached dataset again if it has changed', async () => {
+      const airlines = [{ iataCode: 'BA' }];
+      const { fetch, requests } = createFetch([
+        jsonResponse({ data: airlines }, { headers: { ETag: '"v1"' } }),
+        () => new Response(null, { status: 304, headers: { ETag: '"v1"' } }),
+      ]);
+      const client = createClient({
+        baseUrl: 'https://iata.example.com',
+        fetch,
+        cacheTtlMs: 0,
+      });
+
+      const cachedAirlines = await client.airlines.all();
+      expect(await client.airlines.all()).toBe(cachedAirlines);
+      expect(cachedAirlines).toEqual(airlines);
+      expect(requests[1].init?.headers).toMatchObject({ 'If-None-Match': '"v1"' });
+    });
+
+    it('should require a base URL', () => {
+      expect(() => createClient()).toThrow(
+        'A `baseUrl` is required, unless `offline` is set',
+      );
+    });
+  });
+});
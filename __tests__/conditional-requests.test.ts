@@ -0,0 +1,73 @@
+import { getResourceVersion, isNotModified } from '../src/conditional-requests.js';
+
+describe('Conditional requests', () => {
+  describe('getResourceVersion', () => {
+    it('should be stable for the same datasets', () => {
+      expect(getResourceVersion(['airports'])).toEqual(getResourceVersion(['airports']));
+    });
+
+    it('should depend on which datasets a resource is built from', () => {
+      const airports = getResourceVersion(['airports']);
+      const countries = getResourceVersion(['countries', 'airports']);
+
+      expect(airports.version).not.toBe(countries.version);
+      expect(countries.lastModified.getTime()).toBeGreaterThanOrEqual(
+        airports.lastModified.getTime(),
+      );
+    });
+  });
+
+  describe('isNotModified', () => {
+    const lastModified = new Date('2025-03-01T12:00:00.500Z');
+
+    it('should match entity tags weakly', () => {
+      expect(isNotModified({ 'if-none-match': '"abc"' }, 'W/"abc"', lastModified)).toBe(
+        true,
+      );
+      expect(
+        isNotModified({ 'if-none-match': 'W/"xyz", W/"abc"' }, 'W/"abc"', lastModified),
+      ).toBe(true);
+      expect(isNotModified({ 'if-none-match': '*' }, 'W/"abc"', lastModified)).toBe(true);
+      expect(isNotModified({ 'if-none-match': 'W/"xyz"' }, 'W/"abc"', lastModified)).toBe(
+        false,
+      );
+    });
+
+    it('should compare modification dates to the second', () => {
+      expect(
+        isNotModified(
+          { 'if-modified-since': 'Sat, 01 Mar 2025 12:00:00 GMT' },
+          'W/"abc"',
+          lastModified,
+        ),
+      ).toBe(true);
+      expect(
+        isNotModified(
+          { 'if-modified-since': 'Sat, 01 Mar 2025 11:59:59 GMT' },
+          'W/"abc"',
+          lastModified,
+        ),
+      ).toBe(false);
+      expect(
+        isNotModified({ 'if-modified-since': 'yesterday' }, 'W/"abc"', lastModified),
+      ).toBe(false);
+    });
+
+    it('should ignore If-Modified-Since when If-None-Match is given', () => {
+      expect(
+        isNotModified(
+          {
+            'if-none-match': 'W/"xyz"',
+            'if-modified-since': 'Sat, 01 Mar 2025 12:00:00 GMT',
+          },
+          'W/"abc"',
+          lastModified,
+        ),
+      ).toBe(false);
+    });
+
+    it('should return false without any conditional headers', () => {
+      expect(isNotModified({}, 'W/"abc"', lastModified)).toBe(false);
+    });
+  });
+});
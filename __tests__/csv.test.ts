@@ -0,0 +1,33 @@
+import { CsvParseError, parseCsv } from '../src/csv.js';
+
+describe('parseCsv', () => {
+  it('should return records keyed by the header row', () => {
+    expect(parseCsv('iata_code,name\nLHR,Heathrow\r\nLGW,Gatwick\n')).toEqual([
+      { iata_code: 'LHR', name: 'Heathrow' },
+      { iata_code: 'LGW', name: 'Gatwick' },
+    ]);
+  });
+
+  it('should handle quoted fields with commas, quotes and line breaks', () => {
+    expect(parseCsv('name,keywords\n"New ""Test"" Airport","LON,\nLondres"')).toEqual([
+      { name: 'New "Test" Airport', keywords: 'LON,\nLondres' },
+    ]);
+  });
+
+  it('should keep empty fields and skip blank lines', () => {
+    expect(parseCsv('\uFEFFa,b,c\n\n1,,3\n\n')).toEqual([{ a: '1', b: '', c: '3' }]);
+  });
+
+  it('should return no records for an empty file', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+
+  it('should throw an error for malformed rows', () => {
+    expect(() => parseCsv('a,b\n1,2\n3')).toThrow(
+      new CsvParseError('Line 3: expected 2 fields but found 1'),
+    );
+    expect(() => parseCsv('a,b\n1,2\n"3,4\n')).toThrow(
+      new CsvParseError('Line 3: quoted field is never closed'),
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import { ImportError, detectImportFormat, importDataset } from '../src/data-import.js';
+
+const heathrow = {
+  id: 'arp_lhr_gb',
+  iata_code: 'LHR',
+  icao_code: 'EGLL',
+  name: 'Heathrow Airport',
+  city_name: 'London',
+  iata_city_code: 'LON',
+  iata_country_code: 'GB',
+  latitude: 51.470311,
+  longitude: -0.458118,
+  time_zone: 'Europe/London',
+  city: {
+    id: 'cit_lon_gb',
+    name: 'London',
+    iata_code: 'LON',
+    iata_country_code: 'GB',
+  },
+};
+
+const OURAIRPORTS_HEADER =
+  'id,ident,type,name,latitude_deg,longitude_deg,iso_country,municipality,icao_code,iata_code,gps_code';
+
+describe('Data import', () => {
+  describe('detectImportFormat', () => {
+    it('should detect the format from the file name and header row', () => {
+      expect(detectImportFormat('airports.json', '[]')).toBe('json');
+      expect(detectImportFormat('airports.CSV', 'id,iata_code\n')).toBe('csv');
+      expect(detectImportFormat('airports.csv', `${OURAIRPORTS_HEADER}\n`)).toBe(
+        'ourairports',
+      );
+      expect(() => detectImportFormat('airports.txt', '')).toThrow(ImportError);
+    });
+  });
+
+  describe('importDataset', () => {
+    it('should import JSON records and Duffel API responses', () => {
+      const { city_name, ...heathrowWithoutCityName } = heathrow;
+      const contents = JSON.stringify({
+        data: [{ ...heathrowWithoutCityName, extra: true, city_name: ` ${city_name} ` }],
+      });
+
+      expect(importDataset('airports', contents, { format: 'json' })).toEqual({
+        records: [heathrow],
+        issues: [],
+      });
+      expect(() => importDataset('airports', '{"data": {}}', { format: 'json' })).toThrow(
+        ImportError,
+      );
+    });
+
+    it('should import CSV records, converting numbers and cities', () => {
+      const contents = [
+        'id,iata_code,name,icao_code',
+        'arc_1,77W,Boeing 777-300ER,',
+        'arc_2,320,Airbus A320,A320',
+      ].join('\n');
+
+      expect(
+        importDataset('aircraft', contents, {
+          format: 'csv',
+          icaoCodes: { '77W': 'B77W' },
+        }).records,
+      ).toEqual([
+        { id: 'arc_2', iata_code: '320', icao_code: 'A320', name: 'Airbus A320' },
+        { id: 'arc_1', iata_code: '77W', icao_code: 'B77W', name: 'Boeing 777-300ER' },
+      ]);
+
+      const airports = [
+        'id,iata_code,icao_code,name,city_name,iata_city_code,iata_country_code,latitude,longitude,time_zone,city.id,city.name,city.iata_code,city.iata_country_code',
+        'arp_lhr_gb,LHR,EGLL,Heathrow Airport,London,LON,GB,51.470311,-0.458118,Europe/London,cit_lon_gb,London,LON,GB',
+      ].join('\n');
+      expect(importDataset('airports', airports, { format: 'csv' }).records).toEqual([
+        heathrow,
+      ]);
+    });
+
+    it('should report malformed records and duplicate codes', () => {
+      const contents = JSON.stringify([
+        heathrow,
+        { ...heathrow, id: 'arp_xxx_gb', iata_code: 'xx', time_zone: 'Europe/Nowhere' },
+        { ...heathrow, id: 'arp_lhr_2' },
+        { ...heathrow, iata_code: 'LGW' },
+        'LGW',
+      ]);
+
+      const { records, issues } = importDataset('airports', contents, { format: 'json' });
+
+      expect(records).toEqual([heathrow]);
+      expect(issues).toEqual([
+        {
+          record: 2,
+          message: '`iata_code` must be a three letter IATA code, but is "xx"',
+          skipped: true,
+        },
+        {
+          record: 2,
+          message: '`time_zone` must be an IANA time zone name, but is "Europe/Nowhere"',
+          skipped: true,
+        },
+        {
+          record: 3,
+          message: 'The IATA code LHR is already used by record 1',
+          skipped: true,
+        },
+        {
+          record: 4,
+          message: 'The ID arp_lhr_gb is already used by record 1',
+          skipped: true,
+        },
+        { record: 5, message: 'The record is not an object', skipped: true },
+      ]);
+    });
+
+    it('should clear invalid values in optional fields', () => {
+      const contents = JSON.stringify([
+        {
+          id: 'arl_1',
+          iata_code: 'AV',
+          name: 'Avianca',
+          conditions_of_carriage_url: 'avianca.com/contract-of-carriage',
+        },
+      ]);
+
+      expect(importDataset('airlines', contents, { format: 'json' })).toEqual({
+        records: [
+          {
+            id: 'arl_1',
+            iata_code: 'AV',
+            icao_code: null,
+            name: 'Avianca',
+            logo_symbol_url: null,
+            logo_lockup_url: null,
+            conditions_of_carriage_url: null,
+          },
+        ],
+        issues: [
+          {
+            record: 1,
+            message:
+              '`conditions_of_carriage_url` must be null or a URL, but is "avianca.com/contract-of-carriage"',
+            skipped: false,
+          },
+        ],
+      });
+    });
+
+    it('should import airports with IATA codes from OurAirports', () => {
+      const contents = [
+        OURAIRPORTS_HEADER,
+        '2434,EGLL,large_airport,"London Heathrow Airport",51.4706,-0.461941,GB,London,EGLL,LHR,EGLL',
+        '1,00A,heliport,"Total RF Heliport",40.07,-74.93,US,Bensalem,,,K00A',
+        '2,XXXX,closed,"Closed Airport",40.07,-74.93,US,Bensalem,,XXX,',
+        '3,KNEW,small_airport,"New Airport",40.07,-74.93,US,Newtown,,NEW,KNEW',
+      ].join('\n');
+
+      const { records, issues } = importDataset('airports', contents, {
+        format: 'ourairports',
+        existingRecords: [heathrow],
+      });
+
+      expect(records).toEqual([
+        {
+          ...heathrow,
+          name: 'London Heathrow Airport',
+          latitude: 51.4706,
+          longitude: -0.461941,
+        },
+      ]);
+      // There's no existing airport to take a time zone from
+      expect(issues).toEqual([
+        {
+          record: 4,
+          message: '`time_zone` must be an IANA time zone name, but is missing',
+          skipped: true,
+        },
+      ]);
+      expect(() =>
+        importDataset('airlines', contents, { format: 'ourairports' }),
+      ).toThrow(new ImportError('OurAirports files can only be imported as airports'));
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { getAircraft } from '../src/aircraft.js';
+import { getAirlines } from '../src/airlines.js';
+import { getAirports } from '../src/airports.js';
+import {
+  DataValidationError,
+  DataReloadResult,
+  getDatasetVersions,
+  reloadData,
+  watchDataDir,
+} from '../src/data-source.js';
+import { aircraftDataset } from '../src/datasets.js';
+import { findByIataCode, searchDataset } from '../src/search.js';
+import { withTemporaryDataDir } from './helpers/temporary-data-dir.js';
+
+const writeAircraft = (dataDir: string, aircraft: unknown) =>
+  writeFileSync(path.join(dataDir, 'aircraft.json'), JSON.stringify(aircraft));
+
+describe('Data source', () => {
+  const getDataDir = withTemporaryDataDir();
+
+  it('should swap in reloaded data and rebuild indexes', async () => {
+    const aircraft = JSON.parse(
+      readFileSync(path.join(getDataDir(), 'aircraft.json'), 'utf8'),
+    );
+    expect(findByIataCode(aircraftDataset, 'ZZ9')).toBeUndefined();
+
+    writeAircraft(getDataDir(), [
+      ...aircraft,
+      { iata_code: 'ZZ9', name: 'Airbus A350-2000', id: 'arc_test', icao_code: 'A35Z' },
+    ]);
+    const result = await reloadData();
+
+    expect(result.counts.aircraft).toBe(aircraft.length + 1);
+    expect(result.counts.airports).toBe(getAirports().length);
+    expect(findByIataCode(aircraftDataset, 'ZZ9')).toMatchObject({
+      name: 'Airbus A350-2000',
+      family: 'A350',
+    });
+    expect(searchDataset(aircraftDataset, { icao: 'A35Z' })).toHaveLength(1);
+    expect(searchDataset(aircraftDataset, { name: 'A350-2000' })).toHaveLength(1);
+  });
+
+  it('should keep the existing data if a file is invalid', async () => {
+    const aircraft = getAircraft();
+
+    writeAircraft(getDataDir(), [{ iata_code: 'ZZ9', id: 'arc_test' }]);
+    await expect(reloadData()).rejects.toThrow(
+      new DataValidationError('aircraft.json: record 0 must have a string `name`'),
+    );
+
+    writeFileSync(path.join(getDataDir(), 'aircraft.json'), '[{');
+    await expect(reloadData()).rejects.toThrow(/aircraft\.json is not valid JSON/);
+
+    writeAircraft(getDataDir(), []);
+    await expect(reloadData()).rejects.toThrow(
+      'aircraft.json must contain a non-empty array',
+    );
+
+    rmSync(path.join(getDataDir(), 'aircraft.json'));
+    await expect(reloadData()).rejects.toThrow(/Unable to read aircraft\.json/);
+
+    expect(getAircraft()).toBe(aircraft);
+  });
+
+  it('should load a data directory without a changelog', async () => {
+    rmSync(path.join(getDataDir(), 'changelog.json'));
+
+    const result = await reloadData();
+
+    expect(result.counts.changelog).toBe(0);
+    expect(result.counts.airports).toBe(getAirports().length);
+  });
+
+  it('should keep memoized data until the next reload', async () => {
+    const airports = getAirports();
+    expect(getAirports()).toBe(airports);
+
+    await reloadData();
+
+    const reloadedAirports = getAirports();
+    expect(reloadedAirports).not.toBe(airports);
+    expect(reloadedAirports).toHaveLength(airports.length);
+  });
+
+  it('should only change the version of datasets whose contents changed', async () => {
+    const versions = getDatasetVersions();
+
+    writeFileSync(
+      path.join(getDataDir(), 'airports.json'),
+      readFileSync(path.join(getDataDir(), 'airports.json')),
+    );
+    writeAircraft(getDataDir(), [
+      { iata_code: 'ZZ9', name: 'Airbus A350-2000', id: 'arc_test' },
+    ]);
+    await reloadData();
+
+    const reloadedVersions = getDatasetVersions();
+    expect(reloadedVersions.airports).toBe(versions.airports);
+    expect(reloadedVersions.aircraft.hash).not.toBe(versions.aircraft.hash);
+  });
+
+  describe('watchDataDir', () => {
+    let overlaysDir: string;
+
+    beforeEach(() => {
+      overlaysDir = mkdtempSync(path.join(tmpdir(), 'iata-overlays-'));
+      process.env.OVERLAYS_FILE = path.join(overlaysDir, 'overlays.json');
+    });
+
+    afterEach(() => {
+      delete process.env.OVERLAYS_FILE;
+      rmSync(overlaysDir, { recursive: true, force: true });
+    });
+
+    it('should reload when an overlays file outside the data directory changes', async () => {
+      const reloaded = new Promise<DataReloadResult>((resolve, reject) => {
+        const watcher = watchDataDir(
+          (result) => {
+            watcher.close();
+            resolve(result);
+          },
+          (error) => {
+            watcher.close();
+            reject(error);
+          },
+        );
+      });
+
+      writeFileSync(
+        process.env.OVERLAYS_FILE as string,
+        JSON.stringify([
+          { dataset: 'airlines', iata_code: 'Q1', id: 'arl_q1', name: 'Zyxwv Charter' },
+        ]),
+      );
+
+      expect((await reloaded).counts.overlays).toBe(1);
+      expect(getAirlines().at(-1)?.name).toBe('Zyxwv Charter');
+    });
+  });
+});
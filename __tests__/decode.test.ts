@@ -0,0 +1,85 @@
+import { decodeCodes, decodeText } from '../src/decode.js';
+import { airportsDataset } from '../src/datasets.js';
+
+const summarise = (text: string) =>
+  decodeText(text).tokens.map(
+    ({ token, type, flightNumber, airline, airport, airports, aircraft }) => ({
+      token,
+      type,
+      ...(flightNumber && { flightNumber }),
+      ...(airline && { airline: airline.iataCode }),
+      ...(airport && { airport: airport.iataCode }),
+      ...(airports && {
+        airports: airports.map((routeAirport) => routeAirport.iataCode),
+      }),
+      ...(aircraft && { aircraft: aircraft.iataCode }),
+    }),
+  );
+
+describe('Decoding', () => {
+  describe('decodeCodes', () => {
+    it('should separate codes which exist from those which do not', () => {
+      const { results, notFound } = decodeCodes(airportsDataset, [
+        ' lhr ',
+        'XXX',
+        'LHR',
+        '',
+      ]);
+
+      expect(Array.from(results.keys())).toEqual(['LHR']);
+      expect(notFound).toEqual(['XXX']);
+    });
+  });
+
+  describe('decodeText', () => {
+    it('should decode a flight, a route and an aircraft', () => {
+      expect(summarise('BA117 LHR-JFK 77W')).toEqual([
+        { token: 'BA117', type: 'flight', flightNumber: 'BA117', airline: 'BA' },
+        { token: 'LHR-JFK', type: 'route', airports: ['LHR', 'JFK'] },
+        { token: '77W', type: 'aircraft', aircraft: '77W' },
+      ]);
+    });
+
+    it('should decode a GDS segment line', () => {
+      expect(summarise(' 1 BA 117 J 15MAR LHRJFK HK1 0830 1120')).toEqual([
+        { token: '1', type: 'unknown' },
+        { token: 'BA 117', type: 'flight', flightNumber: 'BA117', airline: 'BA' },
+        { token: 'J', type: 'unknown' },
+        { token: '15MAR', type: 'date' },
+        { token: 'LHRJFK', type: 'route', airports: ['LHR', 'JFK'] },
+        { token: 'HK1', type: 'unknown' },
+        { token: '0830', type: 'time' },
+        { token: '1120', type: 'time' },
+      ]);
+    });
+
+    it('should recognise ICAO airline designators in flight numbers', () => {
+      expect(summarise('baw117')).toEqual([
+        { token: 'baw117', type: 'flight', flightNumber: 'BAW117', airline: 'BA' },
+      ]);
+    });
+
+    it('should recognise ICAO aircraft type designators', () => {
+      expect(summarise('BA117 B77W a20n')).toEqual([
+        { token: 'BA117', type: 'flight', flightNumber: 'BA117', airline: 'BA' },
+        { token: 'B77W', type: 'aircraft', aircraft: '77W' },
+        { token: 'a20n', type: 'aircraft', aircraft: '32N' },
+      ]);
+    });
+
+    it('should decode standalone codes, ignoring surrounding punctuation', () => {
+      expect(summarise('(LHR), BA 320')).toEqual([
+        { token: '(LHR),', type: 'airport', airport: 'LHR' },
+        { token: 'BA 320', type: 'flight', flightNumber: 'BA320', airline: 'BA' },
+      ]);
+    });
+
+    it('should list everything recognised without duplicates', () => {
+      const decoded = decodeText('LHR-JFK JFK-LHR BA1 BA2 77W');
+
+      expect(decoded.airports.map((airport) => airport.iataCode)).toEqual(['LHR', 'JFK']);
+      expect(decoded.airlines.map((airline) => airline.iataCode)).toEqual(['BA']);
+      expect(decoded.aircraft.map((aircraft) => aircraft.iataCode)).toEqual(['77W']);
+    });
+  });
+});
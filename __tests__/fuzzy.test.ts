@@ -0,0 +1,36 @@
+import { distanceToScore, editDistance, getMaxEditDistance } from '../src/fuzzy.js';
+
+describe('Fuzzy matching', () => {
+  describe('editDistance', () => {
+    it('should be zero for identical strings', () => {
+      expect(editDistance('lhr', 'lhr')).toBe(0);
+    });
+
+    it('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('lhr', 'lh')).toBe(1);
+      expect(editDistance('lh', 'lhr')).toBe(1);
+      expect(editDistance('lhr', 'lgr')).toBe(1);
+      expect(editDistance('kitten', 'sitting')).toBe(3);
+    });
+
+    it('should charge less for adjacent transpositions', () => {
+      expect(editDistance('jkf', 'jfk')).toBe(0.5);
+      expect(editDistance('jkf', 'jfk')).toBeLessThan(editDistance('jkf', 'jkg'));
+    });
+  });
+
+  describe('getMaxEditDistance', () => {
+    it('should allow more leeway for longer terms', () => {
+      expect(getMaxEditDistance('l')).toBe(0);
+      expect(getMaxEditDistance('lhr')).toBe(1);
+      expect(getMaxEditDistance('heathrow')).toBe(2);
+    });
+  });
+
+  describe('distanceToScore', () => {
+    it('should score an exact match as 1', () => {
+      expect(distanceToScore(0, 'lhr')).toBe(1);
+      expect(distanceToScore(1, 'lhr')).toBeCloseTo(2 / 3);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { createSpatialIndex, findNearby, haversineDistanceKm } from '../src/geo.js';
+
+const heathrow = { latitude: 51.470311, longitude: -0.458118 };
+const jfk = { latitude: 40.642335, longitude: -73.78817 };
+
+describe('Geospatial helpers', () => {
+  describe('haversineDistanceKm', () => {
+    it('should calculate the great-circle distance between two points', () => {
+      expect(haversineDistanceKm(heathrow, jfk)).toBeCloseTo(5540, -1);
+      expect(haversineDistanceKm(jfk, heathrow)).toBeCloseTo(
+        haversineDistanceKm(heathrow, jfk),
+      );
+    });
+
+    it('should be zero for the same point', () => {
+      expect(haversineDistanceKm(heathrow, heathrow)).toBe(0);
+    });
+  });
+
+  describe('findNearby', () => {
+    const places = [
+      { name: 'West of antimeridian', latitude: -17, longitude: 179.9 },
+      { name: 'East of antimeridian', latitude: -17, longitude: -179.9 },
+      { name: 'Near north pole', latitude: 89.9, longitude: 10 },
+      { name: 'Other side of north pole', latitude: 89.9, longitude: -170 },
+      { name: 'Heathrow', ...heathrow },
+      { name: 'JFK', ...jfk },
+    ];
+    const spatialIndex = createSpatialIndex(places);
+    const search = (latitude: number, longitude: number, radiusKm: number, limit = 10) =>
+      findNearby(spatialIndex, { latitude, longitude }, radiusKm, limit).map(
+        ({ object }) => object.name,
+      );
+
+    it('should return places within the radius, closest first', () => {
+      expect(search(51.5, -0.1, 6000)).toEqual([
+        'Heathrow',
+        'Near north pole',
+        'Other side of north pole',
+        'JFK',
+      ]);
+      expect(search(51.5, -0.1, 100)).toEqual(['Heathrow']);
+    });
+
+    it('should respect the limit', () => {
+      expect(search(51.5, -0.1, 6000, 2)).toEqual(['Heathrow', 'Near north pole']);
+    });
+
+    it('should find places across the antimeridian', () => {
+      expect(search(-17, 179.95, 50)).toEqual([
+        'West of antimeridian',
+        'East of antimeridian',
+      ]);
+    });
+
+    it('should find places across the poles', () => {
+      expect(search(89.95, 10, 50)).toEqual([
+        'Near north pole',
+        'Other side of north pole',
+      ]);
+    });
+
+    it('should include the distance to each place', () => {
+      const [result] = findNearby(spatialIndex, heathrow, 10, 1);
+      expect(result.distanceKm).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { cpSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { reloadData } from '../../src/data-source.js';
+
+/**
+ * Loads the data from a fresh copy of the `data` directory in each test in the
+ * surrounding `describe` block, so tests can change the data files, and then
+ * loads the original data again after each test. Returns a function which gets
+ * the path of the current test's copy. The data in the copy is only loaded once
+ * a test calls `reloadData()`.
+ */
+export const withTemporaryDataDir = (): (() => string) => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(tmpdir(), 'iata-data-'));
+    cpSync('data', dataDir, { recursive: true });
+    process.env.DATA_DIR = dataDir;
+  });
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR;
+    rmSync(dataDir, { recursive: true, force: true });
+    await reloadData();
+  });
+
+  return () => dataDir;
+};
@@ -0,0 +1,182 @@
+import { rmSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import {
+  addHistoricalRecords,
+  createDatasetAsOfGetter,
+  isValidOn,
+} from '../src/history.js';
+import { DataValidationError, reloadData } from '../src/data-source.js';
+import { getAirlinesWithHistory } from '../src/airlines.js';
+import {
+  SearchableDataset,
+  createLookupMapGetter,
+  createNameIndexGetter,
+  createPrefixMapGetter,
+  findByIataCode,
+} from '../src/search.js';
+import { getAirlinesDatasetAsOf } from '../src/datasets.js';
+import { withTemporaryDataDir } from './helpers/temporary-data-dir.js';
+
+interface TestAirline {
+  id: string;
+  iataCode: string;
+  name: string;
+  validFrom?: string;
+  validTo?: string;
+}
+
+const currentAirline: TestAirline = { id: 'arl_2', iataCode: 'XY', name: 'New Airline' };
+const historicalAirline: TestAirline = {
+  id: 'arl_1',
+  iataCode: 'XY',
+  name: 'Old Airline',
+  validTo: '2012-03-02',
+};
+
+describe('History', () => {
+  describe('isValidOn', () => {
+    it('should include both ends of the validity period', () => {
+      const period = { validFrom: '2001-01-01', validTo: '2012-03-02' };
+
+      expect(isValidOn(period, '2000-12-31')).toBe(false);
+      expect(isValidOn(period, '2001-01-01')).toBe(true);
+      expect(isValidOn(period, '2012-03-02')).toBe(true);
+      expect(isValidOn(period, '2012-03-03')).toBe(false);
+    });
+
+    it('should treat a missing or null date as unbounded', () => {
+      expect(isValidOn({}, '1900-01-01')).toBe(true);
+      expect(isValidOn({ validFrom: null, validTo: '2012-03-02' }, '1900-01-01')).toBe(
+        true,
+      );
+      expect(isValidOn({ validFrom: '2001-01-01' }, '2999-01-01')).toBe(true);
+    });
+  });
+
+  describe('addHistoricalRecords', () => {
+    it('should start current records after the historical records with their code', () => {
+      const otherAirline = { id: 'arl_3', iataCode: 'BA', name: 'British Airways' };
+
+      expect(
+        addHistoricalRecords([currentAirline, otherAirline], [historicalAirline]),
+      ).toEqual([
+        { ...currentAirline, validFrom: '2012-03-03' },
+        otherAirline,
+        historicalAirline,
+      ]);
+    });
+
+    it("should keep a current record's own start date", () => {
+      const airline = { ...currentAirline, validFrom: '2013-01-01' };
+
+      expect(addHistoricalRecords([airline], [historicalAirline])).toEqual([
+        airline,
+        historicalAirline,
+      ]);
+    });
+  });
+
+  describe('createDatasetAsOfGetter', () => {
+    it('should share a dataset between dates with the same valid records', () => {
+      const objects = addHistoricalRecords([currentAirline], [historicalAirline]);
+      let createdDatasets = 0;
+      const createDataset = (
+        getObjects: () => TestAirline[],
+      ): SearchableDataset<TestAirline> => {
+        createdDatasets++;
+        return {
+          getObjects,
+          getPrefixMap: createPrefixMapGetter(getObjects),
+          getIataCodeMap: createLookupMapGetter(getObjects, ({ iataCode }) => iataCode),
+          getNameIndex: createNameIndexGetter(getObjects, [
+            { getValue: ({ name }) => name, weight: 1 },
+          ]),
+          iataCodeLength: 2,
+        };
+      };
+      const getDatasetAsOf = createDatasetAsOfGetter(() => objects, createDataset);
+
+      const oldDataset = getDatasetAsOf('2010-01-01');
+      expect(oldDataset.getObjects()).toEqual([historicalAirline]);
+      expect(getDatasetAsOf('2011-01-01')).toBe(oldDataset);
+
+      const newDataset = getDatasetAsOf('2020-01-01');
+      expect(newDataset.getObjects()).toEqual([
+        { ...currentAirline, validFrom: '2012-03-03' },
+      ]);
+      expect(getDatasetAsOf('2021-01-01')).toBe(newDataset);
+      expect(createdDatasets).toBe(2);
+    });
+  });
+
+  describe('loading historical records', () => {
+    const getDataDir = withTemporaryDataDir();
+
+    const writeHistoricalRecords = (records: unknown) =>
+      writeFileSync(path.join(getDataDir(), 'historical.json'), JSON.stringify(records));
+
+    const continental = {
+      dataset: 'airlines',
+      id: 'arl_co_continental',
+      iata_code: 'CO',
+      icao_code: 'COA',
+      name: 'Continental Airlines',
+      logo_symbol_url: null,
+      logo_lockup_url: null,
+      conditions_of_carriage_url: null,
+      valid_to: '2012-03-02',
+    };
+
+    it('should add historical records to the datasets as of a date', async () => {
+      writeHistoricalRecords([
+        { ...continental, name: 'Zyxwv Airlines', valid_from: '1990-01-01' },
+      ]);
+      await reloadData();
+
+      expect(
+        getAirlinesWithHistory().find(({ id }) => id === 'arl_co_continental'),
+      ).toMatchObject({
+        name: 'Zyxwv Airlines',
+        validFrom: '1990-01-01',
+        validTo: '2012-03-02',
+      });
+      expect(findByIataCode(getAirlinesDatasetAsOf('1995-01-01'), 'CO')?.name).toBe(
+        'Zyxwv Airlines',
+      );
+      expect(findByIataCode(getAirlinesDatasetAsOf('1989-12-31'), 'CO')).toBeUndefined();
+      expect(findByIataCode(getAirlinesDatasetAsOf('2012-03-03'), 'CO')).toMatchObject({
+        name: 'North-Western Cargo International',
+        validFrom: '2012-03-03',
+      });
+    });
+
+    it('should treat a missing historical records file as empty', async () => {
+      rmSync(path.join(getDataDir(), 'historical.json'), { force: true });
+      const result = await reloadData();
+
+      expect(result.counts.historical).toBe(0);
+    });
+
+    it('should reject invalid historical records', async () => {
+      writeHistoricalRecords([{ ...continental, valid_to: '2012-02-30' }]);
+      await expect(reloadData()).rejects.toThrow(
+        new DataValidationError(
+          'historical.json: record 0: `valid_to` must be null or a date in YYYY-MM-DD format, but is "2012-02-30"',
+        ),
+      );
+
+      writeHistoricalRecords([{ ...continental, id: 'arl_0000AiejdneTBARNobg3f6' }]);
+      await expect(reloadData()).rejects.toThrow(
+        'historical.json: record 0 has the same ID as a current record, arl_0000AiejdneTBARNobg3f6',
+      );
+
+      writeHistoricalRecords([
+        continental,
+        { ...continental, id: 'arl_co_other', valid_to: '2000-01-01' },
+      ]);
+      await expect(reloadData()).rejects.toThrow(
+        'historical.json: record 1 overlaps another historical record for airlines CO',
+      );
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { rmSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import {
+  Overlay,
+  applyOverlays,
+  createOverlay,
+  presentOverlay,
+} from '../src/overlays.js';
+import { DataValidationError, reloadData } from '../src/data-source.js';
+import { getAirlines } from '../src/airlines.js';
+import { findByIataCode, searchDataset } from '../src/search.js';
+import { airlinesDataset } from '../src/datasets.js';
+import { withTemporaryDataDir } from './helpers/temporary-data-dir.js';
+
+const records = [
+  { id: 'arl_1', iata_code: 'BA', name: 'British Airways' },
+  { id: 'arl_2', iata_code: 'AA', name: 'American Airlines' },
+];
+
+describe('Overlays', () => {
+  describe('applyOverlays', () => {
+    it('should add, change and hide records', () => {
+      const overlays: Overlay[] = [
+        { dataset: 'airlines', iata_code: 'BA', name: 'BA Charter' },
+        { dataset: 'airlines', iata_code: 'AA', hidden: true },
+        { dataset: 'airlines', iata_code: 'Q1', id: 'arl_q1', name: 'Example Charter' },
+        { dataset: 'airlines', iata_code: 'Q2', hidden: true },
+      ];
+
+      expect(applyOverlays(records, overlays)).toEqual([
+        { id: 'arl_1', iata_code: 'BA', name: 'BA Charter', source: 'overlay' },
+        {
+          id: 'arl_q1',
+          iata_code: 'Q1',
+          icao_code: null,
+          name: 'Example Charter',
+          logo_symbol_url: null,
+          logo_lockup_url: null,
+          conditions_of_carriage_url: null,
+          source: 'overlay',
+        },
+      ]);
+    });
+
+    it('should return the same records without any overlays', () => {
+      expect(applyOverlays(records, [])).toBe(records);
+    });
+  });
+
+  describe('createOverlay and presentOverlay', () => {
+    it('should convert between camel case and snake case', () => {
+      const city = {
+        id: 'cit_xyz_gb',
+        name: 'Test',
+        iataCode: 'XYZ',
+        iataCountryCode: 'GB',
+      };
+      const overlay = createOverlay('airports', 'XYZ', {
+        iataCode: 'ignored',
+        timeZone: 'Europe/London',
+        city,
+      });
+
+      expect(overlay).toEqual({
+        dataset: 'airports',
+        iata_code: 'XYZ',
+        time_zone: 'Europe/London',
+        city: {
+          id: 'cit_xyz_gb',
+          name: 'Test',
+          iata_code: 'XYZ',
+          iata_country_code: 'GB',
+        },
+      });
+      expect(presentOverlay(overlay)).toEqual({
+        dataset: 'airports',
+        iataCode: 'XYZ',
+        timeZone: 'Europe/London',
+        city,
+      });
+    });
+  });
+
+  describe('loading overlays', () => {
+    const getDataDir = withTemporaryDataDir();
+
+    const writeOverlays = (overlays: unknown) =>
+      writeFileSync(path.join(getDataDir(), 'overlays.json'), JSON.stringify(overlays));
+
+    it('should merge overlays into the datasets and their indexes', async () => {
+      writeOverlays([
+        { dataset: 'airlines', iata_code: 'Q1', id: 'arl_q1', name: 'Zyxwv Charter' },
+      ]);
+      await reloadData();
+
+      expect(getAirlines().at(-1)).toEqual({
+        id: 'arl_q1',
+        iataCode: 'Q1',
+        icaoCode: null,
+        name: 'Zyxwv Charter',
+        logoSymbolUrl: null,
+        logoLockupUrl: null,
+        conditionsOfCarriageUrl: null,
+        source: 'overlay',
+      });
+      expect(findByIataCode(airlinesDataset, 'Q1')?.name).toBe('Zyxwv Charter');
+      expect(searchDataset(airlinesDataset, { name: 'Zyxwv' })).toHaveLength(1);
+    });
+
+    it('should treat a missing overlays file as empty', async () => {
+      rmSync(path.join(getDataDir(), 'overlays.json'), { force: true });
+      const result = await reloadData();
+
+      expect(result.counts.overlays).toBe(0);
+    });
+
+    it('should reject invalid overlays', async () => {
+      writeOverlays([{ dataset: 'countries', iata_code: 'GB', hidden: true }]);
+      await expect(reloadData()).rejects.toThrow(
+        new DataValidationError(
+          'overlays.json: record 0 must have a `dataset` of airports, airlines, aircraft',
+        ),
+      );
+
+      writeOverlays([{ dataset: 'airlines', iata_code: 'BA', icao_code: 'baw' }]);
+      await expect(reloadData()).rejects.toThrow(
+        'overlays.json: record 0: `icao_code` must be null or a three letter ICAO code, but is "baw"',
+      );
+
+      writeOverlays([
+        { dataset: 'airlines', iata_code: 'BA', hidden: true },
+        { dataset: 'airlines', iata_code: 'BA', name: 'BA' },
+      ]);
+      await expect(reloadData()).rejects.toThrow(
+        'overlays.json: record 1 is the second overlay for airlines BA',
+      );
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  InvalidListOptionsError,
+  applyListOptions,
+  decodeCursor,
+  encodeCursor,
+} from '../src/pagination.js';
+
+const objects = [
+  { iataCode: 'LGW', name: 'Gatwick Airport', iataCountryCode: 'GB' },
+  { iataCode: 'LHR', name: 'Heathrow Airport', iataCountryCode: 'GB' },
+  { iataCode: 'CDG', name: 'Charles de Gaulle Airport', iataCountryCode: 'FR' },
+  { iataCode: 'AMS', name: 'Amsterdam Airport Schiphol', iataCountryCode: 'NL' },
+];
+const allowedFields = ['iataCode', 'name', 'iataCountryCode'];
+
+describe('List options', () => {
+  describe('cursors', () => {
+    it('should round-trip an offset', () => {
+      expect(decodeCursor(encodeCursor(42))).toBe(42);
+    });
+
+    it('should reject cursors which were not issued by the API', () => {
+      expect(() => decodeCursor('nonsense')).toThrow(InvalidListOptionsError);
+    });
+  });
+
+  describe('applyListOptions', () => {
+    it('should return everything, in the original order, without any options', () => {
+      expect(applyListOptions(objects, {}, allowedFields)).toEqual({ data: objects });
+    });
+
+    it('should not reorder the original list when sorting', () => {
+      const original = [...objects];
+      const { data } = applyListOptions(objects, { sort: 'iataCode' }, allowedFields);
+
+      expect(data.map((object) => object.iataCode)).toEqual(['AMS', 'CDG', 'LGW', 'LHR']);
+      expect(objects).toEqual(original);
+    });
+
+    it('should sort by name in descending order', () => {
+      const { data } = applyListOptions(objects, { sort: '-name' }, allowedFields);
+
+      expect(data.map((object) => object.iataCode)).toEqual(['LHR', 'LGW', 'CDG', 'AMS']);
+    });
+
+    it('should paginate after sorting', () => {
+      const firstPage = applyListOptions(
+        objects,
+        { sort: 'iataCode', limit: 3 },
+        allowedFields,
+      );
+      expect(firstPage.data.map((object) => object.iataCode)).toEqual([
+        'AMS',
+        'CDG',
+        'LGW',
+      ]);
+      expect(firstPage.meta).toEqual({
+        total: 4,
+        limit: 3,
+        nextCursor: encodeCursor(3),
+      });
+
+      const lastPage = applyListOptions(
+        objects,
+        { sort: 'iataCode', limit: 3, cursor: firstPage.meta?.nextCursor as string },
+        allowedFields,
+      );
+      expect(lastPage.data.map((object) => object.iataCode)).toEqual(['LHR']);
+      expect(lastPage.meta?.nextCursor).toBeNull();
+    });
+
+    it('should only include the selected fields', () => {
+      const { data } = applyListOptions(
+        objects,
+        { fields: 'iataCode, iataCountryCode', limit: 1 },
+        allowedFields,
+      );
+
+      expect(data).toEqual([{ iataCode: 'LGW', iataCountryCode: 'GB' }]);
+    });
+
+    it('should reject fields which are not allowed', () => {
+      expect(() =>
+        applyListOptions(objects, { fields: 'iataCode,id' }, allowedFields),
+      ).toThrow('Unknown fields: id');
+    });
+  });
+});
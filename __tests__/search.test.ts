@@ -0,0 +1,48 @@
+import { createNameIndex, searchNameIndex } from '../src/search.js';
+
+interface Place {
+  code: string;
+  name: string;
+  cityName?: string;
+}
+
+const places: Place[] = [
+  { code: 'AAA', name: 'Zürich Airport', cityName: 'Zürich' },
+  { code: 'BBB', name: 'Example Field', cityName: 'Exampleton' },
+  { code: 'CCC', name: 'Exampleton International Airport', cityName: 'Exampleton' },
+];
+
+const nameIndex = createNameIndex<Place>(places, [
+  { getValue: (place) => place.name, weight: 1 },
+  { getValue: (place) => place.cityName, weight: 0.8 },
+]);
+
+const search = (query: string): string[] =>
+  searchNameIndex(nameIndex, query).map((place) => place.code);
+
+describe('Name search', () => {
+  it('should ignore case and accents', () => {
+    expect(search('ZURICH')).toEqual(['AAA']);
+  });
+
+  it('should match the start of words', () => {
+    expect(search('exam')).toEqual(expect.arrayContaining(['BBB', 'CCC']));
+  });
+
+  it('should rank matches on the name above matches on the city', () => {
+    expect(search('exampleton')).toEqual(['CCC', 'BBB']);
+  });
+
+  it('should rank whole-word matches above prefix matches', () => {
+    expect(search('example')).toEqual(['BBB', 'CCC']);
+  });
+
+  it('should only return objects matching every word', () => {
+    expect(search('exampleton field')).toEqual(['BBB']);
+    expect(search('zurich field')).toEqual([]);
+  });
+
+  it('should return nothing for a query without any words', () => {
+    expect(search(' - ')).toEqual([]);
+  });
+});
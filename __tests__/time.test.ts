@@ -0,0 +1,126 @@
+import {
+  findNextUtcOffsetTransition,
+  formatLocalDateTime,
+  formatUtcOffset,
+  getLocalTime,
+  getUtcOffsetMinutes,
+  isDaylightSavingTime,
+  parseLocalDateTime,
+} from '../src/time.js';
+
+describe('Time zone helpers', () => {
+  describe('getUtcOffsetMinutes', () => {
+    it('should take daylight saving time into account', () => {
+      expect(getUtcOffsetMinutes('Europe/London', new Date('2026-01-15T12:00:00Z'))).toBe(
+        0,
+      );
+      expect(getUtcOffsetMinutes('Europe/London', new Date('2026-07-15T12:00:00Z'))).toBe(
+        60,
+      );
+      expect(
+        getUtcOffsetMinutes('America/New_York', new Date('2026-01-15T12:00:00Z')),
+      ).toBe(-300);
+    });
+
+    it('should handle offsets which are not whole hours', () => {
+      expect(getUtcOffsetMinutes('Asia/Kolkata', new Date('2026-01-15T12:00:00Z'))).toBe(
+        330,
+      );
+    });
+  });
+
+  describe('formatUtcOffset', () => {
+    it('should format offsets with a sign, hours and minutes', () => {
+      expect(formatUtcOffset(0)).toBe('+00:00');
+      expect(formatUtcOffset(330)).toBe('+05:30');
+      expect(formatUtcOffset(-240)).toBe('-04:00');
+    });
+  });
+
+  describe('isDaylightSavingTime', () => {
+    it('should work in both hemispheres', () => {
+      const january = new Date('2026-01-15T12:00:00Z');
+      const july = new Date('2026-07-15T12:00:00Z');
+
+      expect(isDaylightSavingTime('Europe/London', january)).toBe(false);
+      expect(isDaylightSavingTime('Europe/London', july)).toBe(true);
+      expect(isDaylightSavingTime('Australia/Sydney', january)).toBe(true);
+      expect(isDaylightSavingTime('Australia/Sydney', july)).toBe(false);
+      expect(isDaylightSavingTime('Asia/Tokyo', july)).toBe(false);
+    });
+  });
+
+  describe('findNextUtcOffsetTransition', () => {
+    it('should find the exact minute the clocks next change', () => {
+      expect(
+        findNextUtcOffsetTransition('Europe/London', new Date('2026-01-15T12:00:00Z')),
+      ).toEqual(new Date('2026-03-29T01:00:00Z'));
+      expect(
+        findNextUtcOffsetTransition('America/New_York', new Date('2026-07-15T12:00:00Z')),
+      ).toEqual(new Date('2026-11-01T06:00:00Z'));
+    });
+
+    it('should return null for time zones without daylight saving time', () => {
+      expect(findNextUtcOffsetTransition('Asia/Tokyo')).toBeNull();
+    });
+  });
+
+  describe('formatLocalDateTime', () => {
+    it('should format the local date and time with the offset', () => {
+      expect(formatLocalDateTime('Asia/Kolkata', new Date('2026-01-15T20:00:00Z'))).toBe(
+        '2026-01-16T01:30:00+05:30',
+      );
+    });
+  });
+
+  describe('parseLocalDateTime', () => {
+    it('should convert a local date and time to a moment', () => {
+      expect(parseLocalDateTime('Europe/London', '2026-07-15T13:00')).toEqual(
+        new Date('2026-07-15T12:00:00Z'),
+      );
+      expect(parseLocalDateTime('America/New_York', '2026-01-15T07:00:30')).toEqual(
+        new Date('2026-01-15T12:00:30Z'),
+      );
+    });
+
+    it('should resolve times which happen twice to the first', () => {
+      expect(parseLocalDateTime('Europe/London', '2026-10-25T01:30')).toEqual(
+        new Date('2026-10-25T00:30:00Z'),
+      );
+    });
+
+    it('should move times which are skipped forward', () => {
+      const date = parseLocalDateTime('Europe/London', '2026-03-29T01:30');
+
+      expect(date).toEqual(new Date('2026-03-29T01:30:00Z'));
+      expect(formatLocalDateTime('Europe/London', date as Date)).toBe(
+        '2026-03-29T02:30:00+01:00',
+      );
+    });
+
+    it('should return null for invalid dates and times', () => {
+      expect(parseLocalDateTime('Europe/London', '2026-13-01T10:00')).toBeNull();
+      expect(parseLocalDateTime('Europe/London', '2026-02-30T10:00')).toBeNull();
+      expect(parseLocalDateTime('Europe/London', '2026-01-01T10:60')).toBeNull();
+      expect(parseLocalDateTime('Europe/London', 'tomorrow')).toBeNull();
+    });
+  });
+
+  describe('getLocalTime', () => {
+    it('should describe the local time and the next transition', () => {
+      expect(getLocalTime('Europe/London', new Date('2026-07-15T12:00:00Z'))).toEqual({
+        timeZone: 'Europe/London',
+        localTime: '2026-07-15T13:00:00+01:00',
+        utcOffset: '+01:00',
+        utcOffsetMinutes: 60,
+        isDst: true,
+        nextTransition: {
+          at: '2026-10-25T01:00:00.000Z',
+          utcOffset: '+00:00',
+          utcOffsetMinutes: 0,
+          isDst: false,
+        },
+      });
+    });
+  });
+});
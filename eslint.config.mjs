@@ -16,7 +16,7 @@ const compat = new FlatCompat({
 
 export default [
   {
-    ignores: ['**/node_modules', 'src/**/*.js'],
+    ignores: ['**/node_modules', 'src/**/*.js', 'dist'],
   },
   ...compat.extends(
     'eslint:recommended',
@@ -12,6 +12,7 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const OUTPUT_PATH = path.join(__dirname, '../', 'data', 'aircraft.json');
+const ICAO_CODES_PATH = path.join(__dirname, '../', 'data', 'aircraft_icao_codes.json');
 
 const duffel = new Duffel({
   token: process.env.DUFFEL_ACCESS_TOKEN,
@@ -19,7 +20,12 @@ const duffel = new Duffel({
 
 const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
 
+// The Duffel API doesn't return ICAO type designators, so we merge them in from
+// our own mapping of IATA codes to ICAO codes
+const loadIcaoCodes = async () => JSON.parse(await fs.readFile(ICAO_CODES_PATH, 'utf8'));
+
 const fetchAndWriteAircraft = async () => {
+  const icaoCodes = await loadIcaoCodes();
   let aircraft = [];
 
   for await (const aircraftResponse of duffel.aircraft.listWithGenerator()) {
@@ -28,7 +34,10 @@ const fetchAndWriteAircraft = async () => {
     // `aircraftResponse` can contain properties that aren't defined in the
     // `Aircraft` type. If this is the case, they'll still be included in our
     // list and written to the file.
-    aircraft.push(aircraftResponse.data);
+    aircraft.push({
+      ...aircraftResponse.data,
+      icao_code: icaoCodes[aircraftResponse.data.iata_code] || null,
+    });
 
     // We artificially sleep after each airport - even though each response
     // contains many airports - just to avoid hitting the rate limit and
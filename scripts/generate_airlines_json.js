@@ -12,6 +12,7 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const OUTPUT_PATH = path.join(__dirname, '../', 'data', 'airlines.json');
+const ICAO_CODES_PATH = path.join(__dirname, '../', 'data', 'airline_icao_codes.json');
 
 const duffel = new Duffel({
   token: process.env.DUFFEL_ACCESS_TOKEN,
@@ -19,7 +20,12 @@ const duffel = new Duffel({
 
 const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
 
+// The Duffel API doesn't return ICAO airline designators, so we merge them in
+// from our own mapping of IATA codes to ICAO codes
+const loadIcaoCodes = async () => JSON.parse(await fs.readFile(ICAO_CODES_PATH, 'utf8'));
+
 const fetchAndWriteAirlines = async () => {
+  const icaoCodes = await loadIcaoCodes();
   let airlines = [];
 
   for await (const airlineResponse of duffel.airlines.listWithGenerator()) {
@@ -28,7 +34,10 @@ const fetchAndWriteAirlines = async () => {
     // `airlineResponse` can contain properties that aren't defined in the
     // `Airline` type. If this is the case, they'll still be included in our
     // list and written to the file.
-    airlines.push(airlineResponse.data);
+    airlines.push({
+      ...airlineResponse.data,
+      icao_code: icaoCodes[airlineResponse.data.iata_code] || null,
+    });
 
     // We artificially sleep after each airport - even though each response
     // contains many airports - just to avoid hitting the rate limit and
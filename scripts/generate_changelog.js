@@ -0,0 +1,76 @@
+#!/usr/bin/node
+
+// Records what changed in the data since a previous copy of it, adding an entry
+// to `data/changelog.json`. Run this after regenerating the data, passing the
+// directory where the old data files were copied to:
+//
+//   npm run generate-changelog -- /tmp/previous-data
+//
+// This uses the compiled TypeScript in `src`, so `npm run generate-changelog`
+// builds it first.
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import fs from 'fs/promises';
+import {
+  CHANGELOG_DATASETS,
+  addChangelogEntry,
+  createChangelogEntry,
+  getSnapshotVersion,
+} from '../src/changelog.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DATA_PATH = path.join(__dirname, '../', 'data');
+const CHANGELOG_PATH = path.join(DATA_PATH, 'changelog.json');
+
+const readSnapshot = async (directory) => {
+  const contents = {};
+  const records = {};
+  for (const name of CHANGELOG_DATASETS) {
+    contents[name] = await fs.readFile(path.join(directory, `${name}.json`), 'utf8');
+    records[name] = JSON.parse(contents[name]);
+  }
+
+  return { version: getSnapshotVersion(contents), records };
+};
+
+const generateChangelog = async (previousDataPath) => {
+  if (!previousDataPath) {
+    throw new Error('Usage: generate_changelog.js <directory with the previous data>');
+  }
+
+  const previous = await readSnapshot(previousDataPath);
+  const current = await readSnapshot(DATA_PATH);
+
+  const entry = createChangelogEntry(previous.records, current.records, {
+    version: current.version,
+    previousVersion: previous.version,
+    date: new Date(),
+  });
+
+  if (!entry) {
+    console.log('No changes to the data');
+    return;
+  }
+
+  for (const [name, { added, removed, modified }] of Object.entries(entry.changes)) {
+    console.log(
+      `${name}: ${added.length} added, ${removed.length} removed, ${modified.length} modified`,
+    );
+  }
+
+  const changelog = JSON.parse(await fs.readFile(CHANGELOG_PATH, 'utf8'));
+  await fs.writeFile(
+    CHANGELOG_PATH,
+    `${JSON.stringify(addChangelogEntry(changelog, entry), null, 2)}\n`,
+  );
+};
+
+generateChangelog(process.argv[2])
+  .then(() => console.log(`Wrote changelog to ${CHANGELOG_PATH}`))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,99 @@
+#!/usr/bin/node
+
+// Generates `data/airports.json`, `data/airlines.json` or `data/aircraft.json`
+// from a local file, rather than from the Duffel API, so the data can be built
+// without network access. For example:
+//
+//   npm run import-airports -- exports/airports.csv
+//
+// Files can be JSON or CSV with the same fields as our data files, or
+// OurAirports' `airports.csv`. If any records are malformed or duplicates,
+// they're reported and nothing is written, unless `--skip-invalid` is passed
+// to leave them (or just their invalid optional values) out. Pass
+// `--output-dir` to write somewhere other than `data`.
+//
+// This uses the compiled TypeScript in `src`, so the `import-*` scripts build
+// it first.
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import fs from 'fs/promises';
+import { detectImportFormat, importDataset } from '../src/data-import.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DATA_PATH = path.join(__dirname, '../', 'data');
+
+// As when generating the data from the Duffel API, ICAO codes are merged in
+// from our own mappings
+const ICAO_CODES_FILE_NAMES = {
+  airlines: 'airline_icao_codes.json',
+  aircraft: 'aircraft_icao_codes.json',
+};
+
+const readJsonIfExists = async (filePath, fallback) => {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+};
+
+const importData = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'skip-invalid': { type: 'boolean', default: false },
+      'output-dir': { type: 'string', default: DATA_PATH },
+    },
+  });
+  const [name, inputPath] = positionals;
+
+  if (!['airports', 'airlines', 'aircraft'].includes(name) || !inputPath) {
+    throw new Error(
+      'Usage: import_data.js <airports|airlines|aircraft> <file> [--skip-invalid] [--output-dir <directory>]',
+    );
+  }
+
+  const outputPath = path.join(values['output-dir'], `${name}.json`);
+  const contents = await fs.readFile(inputPath, 'utf8');
+  const format = detectImportFormat(inputPath, contents);
+  console.log(`Importing ${name} from ${inputPath} (${format})`);
+
+  const { records, issues } = importDataset(name, contents, {
+    format,
+    existingRecords: await readJsonIfExists(outputPath, []),
+    icaoCodes:
+      name in ICAO_CODES_FILE_NAMES
+        ? await readJsonIfExists(path.join(DATA_PATH, ICAO_CODES_FILE_NAMES[name]), {})
+        : {},
+  });
+
+  for (const { record, message, skipped } of issues) {
+    const outcome = skipped ? 'record left out' : 'value left out';
+    console.error(`Record ${record}: ${message} (${outcome}) ❌`);
+  }
+
+  if (issues.length > 0 && !values['skip-invalid']) {
+    throw new Error(
+      `Found ${issues.length} problems, so ${outputPath} wasn't written. Fix them, or pass --skip-invalid to leave those records out.`,
+    );
+  }
+
+  if (records.length === 0) {
+    throw new Error(`No valid ${name} were found in ${inputPath}`);
+  }
+
+  await fs.writeFile(outputPath, JSON.stringify(records));
+  console.log(`Wrote ${records.length} ${name} to ${outputPath}`);
+};
+
+importData().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
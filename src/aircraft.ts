@@ -1,13 +1,340 @@
-import { Aircraft } from './types.js';
-import AIRCRAFT_DATA from './../data/aircraft.json' with { type: 'json' };
+import { Aircraft, AircraftBodyType, AircraftEngineType } from './types.js';
+import { memoizeUntilReload } from './data-source.js';
+import { getRecordsWithOverlays } from './overlays.js';
+import { addHistoricalRecords, getHistoricalRecords } from './history.js';
 import { cameliseKeys } from './utils.js';
 
-let aircraft: Aircraft[] | undefined;
+// The manufacturers of aircraft, matched against the start of their names.
+// Names use a mix of historical and current manufacturers, so these are
+// normalised (e.g. the Avro RJ was built by British Aerospace).
+const AIRCRAFT_MANUFACTURERS: [RegExp, string][] = [
+  [/^(Aerospatiale\/Alenia )?ATR/, 'ATR'],
+  [/^Aerospatiale\/British Aerospace/, 'Aerospatiale/BAC'],
+  [/^Aerospatiale/, 'Aerospatiale'],
+  [/^AgustaWestland/, 'AgustaWestland'],
+  [/^(Airbus|Bombardier C(S\d| Series))/, 'Airbus'],
+  [/^Aircraft Industries/, 'Aircraft Industries'],
+  [/^Antonov/, 'Antonov'],
+  [/^BAE Systems \(BAC\)/, 'BAC'],
+  [/^BAE Systems \(De Havilland\)/, 'De Havilland'],
+  [/^BAE Systems \(Hawker Siddeley\)/, 'Hawker Siddeley'],
+  [/^(BAE Systems|Avro)/, 'BAE Systems'],
+  [/^Bell/, 'Bell'],
+  [/^Boeing \(Douglas\) DC-[346]/, 'Douglas'],
+  [/^(Boeing|Boeign) \(Douglas\)|^Boeing\/McDonnell Douglas/, 'McDonnell Douglas'],
+  [/^Boeing/, 'Boeing'],
+  [/^(Bombardier|Canadair)/, 'Bombardier'],
+  [/^Britten-Norman/, 'Britten-Norman'],
+  [/^CASA/, 'CASA'],
+  [/^Cessna/, 'Cessna'],
+  [/^Comac/, 'Comac'],
+  [/^Convair/, 'Convair'],
+  [/^Curtiss/, 'Curtiss'],
+  [/^Dassault/, 'Dassault'],
+  [/^De Havilland/, 'De Havilland Canada'],
+  [/^Diamond/, 'Diamond'],
+  [/^Eclipse/, 'Eclipse'],
+  [/^(Embraer|Emraer)/, 'Embraer'],
+  [/^Eurocopter/, 'Eurocopter'],
+  [/^Fairchild Dornier/, 'Dornier'],
+  [/^Fairchild/, 'Fairchild'],
+  [/^Fokker/, 'Fokker'],
+  [/^Gippsland/, 'Gippsland Aeronautics'],
+  [/^Grumman/, 'Grumman'],
+  [/^Gulfstream/, 'Gulfstream'],
+  [/^Harbin/, 'Harbin'],
+  [/^Hawker Beechcraft/, 'Beechcraft'],
+  [/^Hawker/, 'Hawker'],
+  [/^Helio/, 'Helio'],
+  [/^Honda/, 'Honda'],
+  [/^Ilyushin/, 'Ilyushin'],
+  [/^Indonesia Aerospace/, 'Indonesian Aerospace'],
+  [/^Israel Aerospace Industries/, 'Israel Aerospace Industries'],
+  [/^Junkers/, 'Junkers'],
+  [/^Learjet/, 'Learjet'],
+  [/^Lockheed/, 'Lockheed'],
+  [/^MD Helicopters/, 'MD Helicopters'],
+  [/^Mil /, 'Mil'],
+  [/^Mitsubishi/, 'Mitsubishi'],
+  [/^NAMC/, 'NAMC'],
+  [/^Piaggio/, 'Piaggio'],
+  [/^Pilatus/, 'Pilatus'],
+  [/^Piper/, 'Piper'],
+  [/^Saab/, 'Saab'],
+  [/^Shaanxi/, 'Shaanxi'],
+  [/^Shorts/, 'Shorts'],
+  [/^Sikorsky/, 'Sikorsky'],
+  [/^SOCATA/, 'SOCATA'],
+  [/^Sukhoi/, 'Sukhoi'],
+  [/^Tecnam/, 'Tecnam'],
+  [/^Tupolev/, 'Tupolev'],
+  [/^Twin (\(Aero\) Turbo )?Commander/, 'Twin Commander'],
+  [/^Vickers/, 'Vickers'],
+  [/^Vulcanair/, 'Vulcanair'],
+  [/^Xian/, 'Xian'],
+  [/^Yakovlev/, 'Yakovlev'],
+];
 
-export const getAircraft = (): Aircraft[] => {
-  if (!aircraft) {
-    aircraft = AIRCRAFT_DATA.map(cameliseKeys) as Aircraft[];
+// The family, body type, engine type and whether it's out of production for
+// each type of aircraft, matched against their names. The first match wins, so
+// more specific patterns come first. Whether an aircraft is discontinued is
+// decided for the family as a whole.
+const AIRCRAFT_FAMILIES: [
+  RegExp,
+  string | null,
+  AircraftBodyType | null,
+  AircraftEngineType | null,
+  boolean,
+][] = [
+  [/Concorde/, 'Concorde', 'narrow', 'jet', true],
+  [/ATR/, 'ATR 42/72', 'narrow', 'turboprop', false],
+  [/Nord 262/, 'Nord 262', 'narrow', 'turboprop', true],
+  [/Corvette/, 'Corvette', 'narrow', 'jet', true],
+  [/Caravelle/, 'Caravelle', 'narrow', 'jet', true],
+  [/Airbus A300/, 'A300', 'wide', 'jet', true],
+  [/Airbus A310/, 'A310', 'wide', 'jet', true],
+  [/Airbus A220|Bombardier C(S\d| Series)/, 'A220', 'narrow', 'jet', false],
+  [/Airbus A(138|318|319|320|321)/, 'A320 family', 'narrow', 'jet', false],
+  [/Airbus A330/, 'A330', 'wide', 'jet', false],
+  [/Airbus A340/, 'A340', 'wide', 'jet', true],
+  [/Airbus A350/, 'A350', 'wide', 'jet', false],
+  [/Airbus A380/, 'A380', 'wide', 'jet', true],
+  [/Boeing 7(07|20)/, '707', 'narrow', 'jet', true],
+  [/Boeing 717/, '717', 'narrow', 'jet', true],
+  [/Boeing 727/, '727', 'narrow', 'jet', true],
+  [/Boeing 737/, '737 family', 'narrow', 'jet', false],
+  [/Boeing 747/, '747', 'wide', 'jet', true],
+  [/Boeing 757/, '757', 'narrow', 'jet', true],
+  [/Boeing 767/, '767', 'wide', 'jet', false],
+  [/Boeing 777/, '777', 'wide', 'jet', false],
+  [/Boeing 787/, '787', 'wide', 'jet', false],
+  [/Boeing C17/, 'C-17 Globemaster', 'wide', 'jet', true],
+  [/DC-3/, 'DC-3', 'narrow', 'piston', true],
+  [/DC-4/, 'DC-4', 'narrow', 'piston', true],
+  [/DC-6/, 'DC-6', 'narrow', 'piston', true],
+  [/DC-8/, 'DC-8', 'narrow', 'jet', true],
+  [/DC-10/, 'DC-10', 'wide', 'jet', true],
+  [/MD-11/, 'MD-11', 'wide', 'jet', true],
+  [/DC-9|MD-?(8\d|90)/, 'DC-9 family', 'narrow', 'jet', true],
+  [/LET\) 410/, 'L 410', 'narrow', 'turboprop', false],
+  [/An-124/, 'An-124', 'wide', 'jet', true],
+  [/An-225/, 'An-225', 'wide', 'jet', true],
+  [/An-?1[457]8/i, 'An-148 family', 'narrow', 'jet', false],
+  [/An-72/, 'An-72/74', 'narrow', 'jet', true],
+  [/An-12\b/, 'An-12', 'narrow', 'turboprop', true],
+  [/An-22\b/, 'An-22', 'wide', 'turboprop', true],
+  [/An-(24|26|30|32)/, 'An-24 family', 'narrow', 'turboprop', true],
+  [/An-140/, 'An-140', 'narrow', 'turboprop', true],
+  [/An-(28|38)/, 'An-28 family', 'narrow', 'turboprop', false],
+  [/Avro RJ|BAE Systems 146/, 'BAe 146 family', 'narrow', 'jet', true],
+  [/One-Eleven/, 'One-Eleven', 'narrow', 'jet', true],
+  [/ATP/, 'ATP', 'narrow', 'turboprop', true],
+  [/Jetstream/, 'Jetstream', 'narrow', 'turboprop', true],
+  [/Dove/, 'Dove', 'narrow', 'piston', true],
+  [/Heron/, 'Heron', 'narrow', 'piston', true],
+  [/748/, 'HS 748', 'narrow', 'turboprop', true],
+  [/Regional Jet/, 'CRJ', 'narrow', 'jet', true],
+  [/Challenger/, 'Challenger', 'narrow', 'jet', false],
+  [/Global/, 'Global', 'narrow', 'jet', false],
+  [/Trislander/, 'Trislander', 'narrow', 'piston', true],
+  [/Islander/, 'Islander', 'narrow', 'piston', false],
+  [/C-295|CN-235/, 'C-295/CN-235', 'narrow', 'turboprop', false],
+  [/212 Aviocar/, 'C-212 Aviocar', 'narrow', 'turboprop', true],
+  [/Cessna 208/, 'Caravan', 'narrow', 'turboprop', false],
+  [/Citation/, 'Citation', 'narrow', 'jet', false],
+  [/ARJ21|C909/, 'C909', 'narrow', 'jet', false],
+  [/C919/, 'C919', 'narrow', 'jet', false],
+  [/Convair (580|5800|600|640)/, 'CV-240 family', 'narrow', 'turboprop', true],
+  [/Convair/, 'CV-240 family', 'narrow', 'piston', true],
+  [/C-46/, 'C-46 Commando', 'narrow', 'piston', true],
+  [/Falcon/, 'Falcon', 'narrow', 'jet', false],
+  [/DHC-2 Turbo Beaver/, 'DHC-2 Beaver', 'narrow', 'turboprop', true],
+  [/DHC-2/, 'DHC-2 Beaver', 'narrow', 'piston', true],
+  [/DHC-3 Turbo Otter/, 'DHC-3 Otter', 'narrow', 'turboprop', true],
+  [/DHC-3/, 'DHC-3 Otter', 'narrow', 'piston', true],
+  [/DHC-4/, 'DHC-4 Caribou', 'narrow', 'piston', true],
+  [/DHC-6/, 'DHC-6 Twin Otter', 'narrow', 'turboprop', false],
+  [/DHC-7/, 'Dash 7', 'narrow', 'turboprop', true],
+  [/DHC-8/, 'Dash 8', 'narrow', 'turboprop', false],
+  [/Diamond Aircraft/, null, 'narrow', 'piston', false],
+  [/Eclipse/, 'Eclipse', 'narrow', 'jet', false],
+  [/Embraer 110/, 'Bandeirante', 'narrow', 'turboprop', true],
+  [/Embraer 120/, 'Brasilia', 'narrow', 'turboprop', true],
+  [/(Embraer|Emraer) 1[79][05] E2/, 'E-Jet E2 family', 'narrow', 'jet', false],
+  [/Embraer (1[79][05]|E190)/, 'E-Jet family', 'narrow', 'jet', false],
+  [/Phenom/, 'Phenom', 'narrow', 'jet', false],
+  [/RJ1[34][05]/, 'ERJ family', 'narrow', 'jet', false],
+  [/Legacy/, 'Legacy', 'narrow', 'jet', false],
+  [/Dornier 228/, 'Do 228', 'narrow', 'turboprop', false],
+  [/Dornier 328JET/, 'Do 328', 'narrow', 'jet', true],
+  [/Dornier 328/, 'Do 328', 'narrow', 'turboprop', true],
+  [/Dornier 728JET/, '728JET', 'narrow', 'jet', true],
+  [/F27|FH-227/, 'F27', 'narrow', 'turboprop', true],
+  [/Fokker 50/, 'Fokker 50', 'narrow', 'turboprop', true],
+  [/Fokker (70|100)|F28/, 'F28 family', 'narrow', 'jet', true],
+  [/Swearingen/, 'Metro', 'narrow', 'turboprop', true],
+  [/GA10/, 'GA10', 'narrow', 'turboprop', false],
+  [/GA8/, 'GA8 Airvan', 'narrow', 'piston', false],
+  [/Nomad/, 'Nomad', 'narrow', 'turboprop', true],
+  [/Goose/, 'Goose', 'narrow', 'piston', true],
+  [/Mallard/, 'Mallard', 'narrow', 'turboprop', true],
+  [/Gulfstream/, 'Gulfstream', 'narrow', 'jet', false],
+  [/Y12/, 'Y-12', 'narrow', 'turboprop', false],
+  [/Beechcraft (1900|C99)/, 'Beech 1900/99', 'narrow', 'turboprop', true],
+  [/^Hawker \d/, 'Hawker', 'narrow', 'jet', true],
+  [/Courier/, 'Courier', 'narrow', 'piston', true],
+  [/HondaJet/, 'HondaJet', 'narrow', 'jet', false],
+  [/I[Il]-114/, 'Il-114', 'narrow', 'turboprop', false],
+  [/Il-18/, 'Il-18', 'narrow', 'turboprop', true],
+  [/Il-62/, 'Il-62', 'narrow', 'jet', true],
+  [/Il-76/, 'Il-76', 'narrow', 'jet', false],
+  [/Il-86/, 'Il-86', 'wide', 'jet', true],
+  [/IL-?96/i, 'Il-96', 'wide', 'jet', false],
+  [/N219/, 'N219', 'narrow', 'turboprop', false],
+  [/Westwind/, 'Westwind', 'narrow', 'jet', true],
+  [/Ju 52/, 'Ju 52', 'narrow', 'piston', true],
+  [/Learjet/, 'Learjet', 'narrow', 'jet', true],
+  [/TriStar/, 'L-1011 TriStar', 'wide', 'jet', true],
+  [/Hercules/, 'Hercules', 'narrow', 'turboprop', false],
+  [/Electra/, 'Electra', 'narrow', 'turboprop', true],
+  [/MU-2/, 'MU-2', 'narrow', 'turboprop', true],
+  [/YS-11/, 'YS-11', 'narrow', 'turboprop', true],
+  [/P180/, 'P180 Avanti', 'narrow', 'turboprop', false],
+  [/PC-12/, 'PC-12', 'narrow', 'turboprop', false],
+  [/PC-6/, 'PC-6 Porter', 'narrow', 'turboprop', true],
+  [/Saab 2000/, 'Saab 2000', 'narrow', 'turboprop', true],
+  [/Saab 340/, 'Saab 340', 'narrow', 'turboprop', true],
+  [/Y-8/, 'Y-8', 'narrow', 'turboprop', false],
+  [/Shorts (330|360)/, 'Shorts 330/360', 'narrow', 'turboprop', true],
+  [/Skyvan/, 'Skyvan', 'narrow', 'turboprop', true],
+  [/TBM/, 'TBM', 'narrow', 'turboprop', false],
+  [/Superjet/, 'Superjet 100', 'narrow', 'jet', false],
+  [/Tecnam/, 'P2012 Traveler', 'narrow', 'piston', false],
+  [/Tu-134/, 'Tu-134', 'narrow', 'jet', true],
+  [/Tu-154/, 'Tu-154', 'narrow', 'jet', true],
+  [/Tu-204/, 'Tu-204 family', 'narrow', 'jet', false],
+  [/Tu-334/, 'Tu-334', 'narrow', 'jet', true],
+  [/Commander/, 'Twin Commander', 'narrow', 'turboprop', true],
+  [/Viscount/, 'Viscount', 'narrow', 'turboprop', true],
+  [/P\.68/, 'P.68', 'narrow', 'piston', false],
+  [/MA-?60/, 'MA60', 'narrow', 'turboprop', false],
+  [/Y7/, 'Y-7', 'narrow', 'turboprop', true],
+  [/Yak-40/, 'Yak-40', 'narrow', 'jet', true],
+  [/Yak-42/, 'Yak-42', 'narrow', 'jet', true],
+  // Helicopters and generic types, which don't belong to a family
+  [
+    /AgustaWestland|Bell|Eurocopter|MD Helicopters|Mil Mi|Sikorsky/,
+    null,
+    null,
+    'helicopter',
+    false,
+  ],
+  [/piston/, null, 'narrow', 'piston', false],
+  [/turboprop|Turbo-Prop/, null, 'narrow', 'turboprop', false],
+  [/Jet/, null, 'narrow', 'jet', false],
+];
+
+const DISCONTINUED_PATTERN = /\(discontinued\)/;
+
+interface AircraftMetadata {
+  manufacturer: string | null;
+  family: string | null;
+  bodyType: AircraftBodyType | null;
+  engineType: AircraftEngineType | null;
+  discontinued: boolean;
+}
+
+/**
+ * Works out an aircraft's manufacturer, family, body type, engine type and
+ * whether it's discontinued from its name (e.g. "Airbus A350-900"). Fields
+ * which can't be worked out are `null`, as they are for surface equipment like
+ * buses and trains.
+ */
+export const getAircraftMetadata = (name: string): AircraftMetadata => {
+  const manufacturer = AIRCRAFT_MANUFACTURERS.find(([pattern]) => pattern.test(name));
+  const family = AIRCRAFT_FAMILIES.find(([pattern]) => pattern.test(name));
+
+  return {
+    manufacturer: manufacturer ? manufacturer[1] : null,
+    family: family ? family[1] : null,
+    bodyType: family ? family[2] : null,
+    engineType: family ? family[3] : null,
+    discontinued: DISCONTINUED_PATTERN.test(name) || (family ? family[4] : false),
+  };
+};
+
+export const aircraftDataToAircraft = (aircraftData: object): Aircraft => {
+  const camelisedAircraft = cameliseKeys(aircraftData) as Aircraft;
+  return { ...camelisedAircraft, ...getAircraftMetadata(camelisedAircraft.name) };
+};
+
+export const getAircraft = memoizeUntilReload((): Aircraft[] =>
+  getRecordsWithOverlays('aircraft').map(aircraftDataToAircraft),
+);
+
+/**
+ * Returns every aircraft, including those whose IATA codes have been reassigned.
+ */
+export const getAircraftWithHistory = memoizeUntilReload((): Aircraft[] =>
+  addHistoricalRecords(
+    getAircraft(),
+    getHistoricalRecords('aircraft').map(aircraftDataToAircraft),
+  ),
+);
+
+// Well-known nicknames which people search for, but which don't appear in the
+// names returned by the Duffel API
+const AIRCRAFT_NICKNAMES: [RegExp, string][] = [
+  [/^Boeing 747/, 'Jumbo Jet'],
+  [/^Boeing 777/, 'Triple Seven'],
+  [/^Boeing 787/, 'Dreamliner'],
+  [/^Airbus A350/, 'XWB'],
+  [/^Airbus A380/, 'Superjumbo'],
+];
+
+export const getAircraftNickname = (aircraft: Aircraft): string | null => {
+  const match = AIRCRAFT_NICKNAMES.find(([pattern]) => pattern.test(aircraft.name));
+  return match ? match[1] : null;
+};
+
+export interface AircraftFilters {
+  // Matched ignoring case, e.g. `boeing`
+  manufacturer?: string;
+  // Matched ignoring case, e.g. `737 family`
+  family?: string;
+  bodyType?: AircraftBodyType;
+  engineType?: AircraftEngineType;
+  discontinued?: boolean;
+}
+
+/**
+ * Filters aircraft by manufacturer, family, body type, engine type and/or
+ * whether they're discontinued. Aircraft must match every filter given.
+ */
+export const filterAircraft = <T extends Aircraft>(
+  aircraft: T[],
+  { manufacturer, family, bodyType, engineType, discontinued }: AircraftFilters,
+): T[] => {
+  const normalisedManufacturer = manufacturer?.toLowerCase();
+  const normalisedFamily = family?.toLowerCase();
+
+  if (
+    !normalisedManufacturer &&
+    !normalisedFamily &&
+    !bodyType &&
+    !engineType &&
+    discontinued === undefined
+  ) {
+    return aircraft;
   }
 
-  return aircraft;
+  return aircraft.filter(
+    (a) =>
+      (!normalisedManufacturer ||
+        a.manufacturer?.toLowerCase() === normalisedManufacturer) &&
+      (!normalisedFamily || a.family?.toLowerCase() === normalisedFamily) &&
+      (!bodyType || a.bodyType === bodyType) &&
+      (!engineType || a.engineType === engineType) &&
+      (discontinued === undefined || a.discontinued === discontinued),
+  );
 };
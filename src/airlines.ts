@@ -1,5 +1,7 @@
 import { Airline, Keyable } from './types.js';
-import AIRLINES_DATA from './../data/airlines.json' with { type: 'json' };
+import { memoizeUntilReload } from './data-source.js';
+import { getRecordsWithOverlays } from './overlays.js';
+import { addHistoricalRecords, getHistoricalRecords } from './history.js';
 import { cameliseKeys } from './utils.js';
 
 // We want to filter out airlines returned by the Duffel API with no IATA code,
@@ -7,12 +9,38 @@ import { cameliseKeys } from './utils.js';
 const hasIataCode = (airline: Keyable): boolean =>
   airline.iataCode !== undefined && airline.iataCode !== null;
 
-let airlines: Airline[] | undefined;
+export const getAirlines = memoizeUntilReload(
+  (): Airline[] =>
+    getRecordsWithOverlays('airlines').map(cameliseKeys).filter(hasIataCode) as Airline[],
+);
 
-export const getAirlines = (): Airline[] => {
-  if (!airlines) {
-    airlines = AIRLINES_DATA.map(cameliseKeys).filter(hasIataCode) as Airline[];
+/**
+ * Returns every airline, including those whose IATA codes have been reassigned
+ * to another airline.
+ */
+export const getAirlinesWithHistory = memoizeUntilReload((): Airline[] =>
+  addHistoricalRecords(
+    getAirlines(),
+    getHistoricalRecords('airlines').map(cameliseKeys) as Airline[],
+  ),
+);
+
+export interface AirlineFilters {
+  // Whether the airline has a logo (`logoSymbolUrl`). If this isn't set,
+  // airlines are returned whether or not they have one.
+  hasLogo?: boolean;
+}
+
+/**
+ * Filters airlines by whether they have a logo.
+ */
+export const filterAirlines = <T extends Airline>(
+  airlines: T[],
+  { hasLogo }: AirlineFilters,
+): T[] => {
+  if (hasLogo === undefined) {
+    return airlines;
   }
 
-  return airlines;
+  return airlines.filter((airline) => (airline.logoSymbolUrl !== null) === hasLogo);
 };
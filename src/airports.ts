@@ -1,8 +1,10 @@
 import { Airport } from './types.js';
-import AIRPORTS_DATA from './../data/airports.json' with { type: 'json' };
+import { memoizeUntilReload } from './data-source.js';
+import { getRecordsWithOverlays } from './overlays.js';
+import { addHistoricalRecords, getHistoricalRecords } from './history.js';
 import { cameliseKeys } from './utils.js';
 
-const airportDataToAirport = (airport: object): Airport => {
+export const airportDataToAirport = (airport: object): Airport => {
   const camelisedAirport = cameliseKeys(airport) as Airport;
 
   if (camelisedAirport.city) {
@@ -14,12 +16,51 @@ const airportDataToAirport = (airport: object): Airport => {
   }
 };
 
-let airports: Airport[] | undefined;
+export const getAirports = memoizeUntilReload((): Airport[] =>
+  getRecordsWithOverlays('airports').map(airportDataToAirport),
+);
 
-export const getAirports = (): Airport[] => {
-  if (!airports) {
-    airports = AIRPORTS_DATA.map(airportDataToAirport);
+/**
+ * Returns every airport, including those which used to have their IATA code but
+ * no longer do (e.g. because the airport closed).
+ */
+export const getAirportsWithHistory = memoizeUntilReload((): Airport[] =>
+  addHistoricalRecords(
+    getAirports(),
+    getHistoricalRecords('airports').map(airportDataToAirport),
+  ),
+);
+
+export interface AirportFilters {
+  // An IATA country code, e.g. `GB`
+  country?: string;
+  // An IATA city code, e.g. `LON`. For airports which aren't part of a
+  // metropolitan area, this is usually the same as the airport's own code.
+  city?: string;
+  // An IANA time zone name, e.g. `Europe/London`
+  timeZone?: string;
+}
+
+/**
+ * Filters airports by country, city and/or time zone, ignoring case. Airports
+ * must match every filter given.
+ */
+export const filterAirports = <T extends Airport>(
+  airports: T[],
+  { country, city, timeZone }: AirportFilters,
+): T[] => {
+  const normalisedCountry = country?.toUpperCase();
+  const normalisedCity = city?.toUpperCase();
+  const normalisedTimeZone = timeZone?.toLowerCase();
+
+  if (!normalisedCountry && !normalisedCity && !normalisedTimeZone) {
+    return airports;
   }
 
-  return airports;
+  return airports.filter(
+    (airport) =>
+      (!normalisedCountry || airport.iataCountryCode === normalisedCountry) &&
+      (!normalisedCity || airport.iataCityCode === normalisedCity) &&
+      (!normalisedTimeZone || airport.timeZone.toLowerCase() === normalisedTimeZone),
+  );
 };
@@ -8,11 +8,64 @@ import Fastify, {
 } from 'fastify';
 import fastifyCompress from '@fastify/compress';
 import fastifyCors from '@fastify/cors';
-import { randomUUID } from 'node:crypto';
-import { getAirports } from './airports.js';
-import { getAirlines } from './airlines.js';
-import { getAircraft } from './aircraft.js';
-import { ObjectWithIataCode } from './types.js';
+import fastifySwagger from '@fastify/swagger';
+import fastifySwaggerUi from '@fastify/swagger-ui';
+import mercurius from 'mercurius';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { Airport, ObjectWithIataCode } from './types.js';
+import {
+  MAX_SEARCH_TEXT_LENGTH,
+  SearchableDataset,
+  findById,
+  findByIataCode,
+  fuzzySearchDataset,
+  searchDataset,
+} from './search.js';
+import {
+  aircraftDataset,
+  airlinesDataset,
+  airportsDataset,
+  citiesDataset,
+  countriesDataset,
+  getAircraftDatasetAsOf,
+  getAirlinesDatasetAsOf,
+  getAirportsDatasetAsOf,
+  getAirportsSpatialIndex,
+} from './datasets.js';
+import { findNearby } from './geo.js';
+import { calculateFlightTimes, calculateRoute } from './routes.js';
+import { LocalTime, getLocalTime } from './time.js';
+import {
+  DatasetName,
+  RECORD_DATASETS,
+  RecordDatasetName,
+  reloadData,
+} from './data-source.js';
+import { getResourceVersion, setCacheValidators } from './conditional-requests.js';
+import { getChangesSince, getLatestVersion, presentChangelogEntry } from './changelog.js';
+import { AirportFilters, filterAirports } from './airports.js';
+import { AirlineFilters, filterAirlines } from './airlines.js';
+import { AircraftFilters, filterAircraft } from './aircraft.js';
+import { expandCityCodes, getCityAirports } from './cities.js';
+import { isValidOn } from './history.js';
+import { MAX_QUERY_DEPTH, resolvers, schema, validationRules } from './graphql.js';
+import {
+  createOverlay,
+  deleteOverlay,
+  getOverlays,
+  presentOverlay,
+  saveOverlay,
+} from './overlays.js';
+import { decodeCodes, decodeText, parseCodeList } from './decode.js';
+import {
+  ListOptions,
+  Page,
+  InvalidListOptionsError,
+  MAX_PAGE_SIZE,
+  SORT_ORDERS,
+  applyListOptions,
+  parseAllowedValues,
+} from './pagination.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
@@ -30,6 +83,30 @@ const app: FastifyInstance<
 > = Fastify({ logger: true });
 
 const ONE_DAY_IN_SECONDS = 60 * 60 * 24;
+const ONE_MINUTE_IN_SECONDS = 60;
+
+type Resource = 'airports' | 'airlines' | 'aircraft' | 'cities' | 'countries';
+
+// The datasets each kind of resource is built from, which their `ETag` and
+// `Last-Modified` headers are based on. Airports can include their country, and
+// countries include a count of their airports. Airports, airlines and aircraft
+// can all be changed by overlays, and have historical records.
+const RESOURCE_DATASETS: Record<Resource, DatasetName[]> = {
+  airports: ['airports', 'countries', 'overlays', 'historical'],
+  airlines: ['airlines', 'overlays', 'historical'],
+  aircraft: ['aircraft', 'overlays', 'historical'],
+  cities: ['airports', 'overlays'],
+  countries: ['countries', 'airports', 'overlays'],
+};
+
+// Routes which aren't included in the OpenAPI document
+const HIDDEN_ROUTE_PREFIXES = [
+  '/mcp',
+  '/admin',
+  '/graphql',
+  '/graphiql',
+  '/openapi.json',
+];
 
 // Map to store MCP transports by session ID
 const mcpTransports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
@@ -46,6 +123,7 @@ const mcpTools: Tool[] = [
         query: {
           type: 'string',
           description: 'The IATA airport code or partial code to search for',
+          maxLength: MAX_SEARCH_TEXT_LENGTH,
         },
       },
       required: ['query'],
@@ -54,13 +132,14 @@ const mcpTools: Tool[] = [
   {
     name: 'lookup_airline',
     description:
-      'Look up airline information by IATA code (2-letter code like BA, AA, etc.)',
+      'Look up airline information by IATA code (2-letter code like BA, AA, etc.), including logo and conditions of carriage URLs where available',
     inputSchema: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
           description: 'The IATA airline code or partial code to search for',
+          maxLength: MAX_SEARCH_TEXT_LENGTH,
         },
       },
       required: ['query'],
@@ -69,20 +148,83 @@ const mcpTools: Tool[] = [
   {
     name: 'lookup_aircraft',
     description:
-      'Look up aircraft information by IATA code (3-letter code like 777, A320, etc.)',
+      'Look up aircraft information by IATA code (3-character code like 77W, 320, etc.), including its ICAO type designator where known',
     inputSchema: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
           description: 'The IATA aircraft code or partial code to search for',
+          maxLength: MAX_SEARCH_TEXT_LENGTH,
         },
       },
       required: ['query'],
     },
   },
+  {
+    name: 'calculate_route',
+    description:
+      'Calculate the great-circle distance (in km, miles and nautical miles) and initial bearing between two airports, plus their time zones and the difference between their current UTC offsets',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from: {
+          type: 'string',
+          description: 'The IATA code of the airport the route starts at',
+        },
+        to: {
+          type: 'string',
+          description: 'The IATA code of the airport the route ends at',
+        },
+      },
+      required: ['from', 'to'],
+    },
+  },
+  {
+    name: 'decode_text',
+    description:
+      'Decode free text containing flights, routes, airports, airlines and aircraft (like "BA117 LHR-JFK 77W" or a GDS segment line), annotating each token with what it is',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: {
+          type: 'string',
+          description: 'The text to decode',
+        },
+      },
+      required: ['text'],
+    },
+  },
 ];
 
+/**
+ * Reads a required string argument passed to an MCP tool, throwing if it is
+ * missing, not a string or longer than `maxLength`.
+ */
+const getStringArgument = (
+  args: Record<string, unknown>,
+  key: string,
+  maxLength = Infinity,
+): string => {
+  const value = args[key];
+  const name = `${key.charAt(0).toUpperCase()}${key.slice(1)}`;
+  if (!value || typeof value !== 'string') {
+    throw new Error(`${name} parameter is required and must be a string`);
+  }
+  if (value.length > maxLength) {
+    throw new Error(`${name} parameter must be at most ${maxLength} characters`);
+  }
+  return value;
+};
+
+const findAirportOrThrow = (iataCode: string): Airport => {
+  const airport = findByIataCode(airportsDataset, iataCode);
+  if (!airport) {
+    throw new Error(`No airport found with IATA code ${iataCode}`);
+  }
+  return airport;
+};
+
 // Create MCP server function
 function createMcpServer(): Server {
   const server = new Server(
@@ -110,15 +252,11 @@ function createMcpServer(): Server {
       throw new Error('Invalid arguments');
     }
 
-    const query = args.query as string;
-    if (!query || typeof query !== 'string') {
-      throw new Error('Query parameter is required and must be a string');
-    }
-
     try {
       switch (name) {
         case 'lookup_airport': {
-          const airports = filterObjectsByPartialIataCode(getAirportsMap(), query, 3);
+          const query = getStringArgument(args, 'query', MAX_SEARCH_TEXT_LENGTH);
+          const airports = searchDataset(airportsDataset, { query });
           return {
             content: [
               {
@@ -138,7 +276,8 @@ function createMcpServer(): Server {
         }
 
         case 'lookup_airline': {
-          const airlines = filterObjectsByPartialIataCode(getAirlinesMap(), query, 2);
+          const query = getStringArgument(args, 'query', MAX_SEARCH_TEXT_LENGTH);
+          const airlines = searchDataset(airlinesDataset, { query });
           return {
             content: [
               {
@@ -158,7 +297,8 @@ function createMcpServer(): Server {
         }
 
         case 'lookup_aircraft': {
-          const aircraft = filterObjectsByPartialIataCode(getAircraftMap(), query, 3);
+          const query = getStringArgument(args, 'query', MAX_SEARCH_TEXT_LENGTH);
+          const aircraft = searchDataset(aircraftDataset, { query });
           return {
             content: [
               {
@@ -177,6 +317,31 @@ function createMcpServer(): Server {
           };
         }
 
+        case 'calculate_route': {
+          const from = findAirportOrThrow(getStringArgument(args, 'from'));
+          const to = findAirportOrThrow(getStringArgument(args, 'to'));
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(calculateRoute(from, to), null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'decode_text': {
+          const text = getStringArgument(args, 'text');
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(decodeText(text), null, 2),
+              },
+            ],
+          };
+        }
+
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
@@ -197,74 +362,203 @@ await app.register(fastifyCors, { origin: '*' });
 // Register compression plugin
 await app.register(fastifyCompress);
 
+// Generate an OpenAPI document from the routes' schemas, so it can't get out of
+// sync with them, and serve interactive docs built from it at `/docs`. The MCP,
+// admin and GraphQL routes are left out, since they aren't part of the REST API.
+await app.register(fastifySwagger, {
+  openapi: {
+    info: {
+      title: 'IATA Code Decoder API',
+      description:
+        'Identify airports, airlines and aircraft by their IATA code. See https://github.com/timrogers/iata-code-decoder-api for more details.',
+      version: '1.0.0',
+    },
+  },
+  transform: ({ schema, url }) => ({
+    schema: HIDDEN_ROUTE_PREFIXES.some((prefix) => url.startsWith(prefix))
+      ? { ...schema, hide: true }
+      : schema,
+    url,
+  }),
+});
+await app.register(fastifySwaggerUi, { routePrefix: '/docs' });
+
+// Serve the same data through GraphQL at `/graphql`, so related records (like an
+// airport's city, country and nearby airports) can be fetched in one request.
+// Queries which are too deeply nested, or could return too much, are rejected.
+await app.register(mercurius, {
+  schema,
+  resolvers,
+  queryDepth: MAX_QUERY_DEPTH,
+  validationRules,
+});
+
 /**
- * Creates a Map where keys are all possible non-empty lowercase prefixes of the
- * IATA codes in the provided dataset. This enables O(1) access to the candidate
- * list for a given prefix (overall query cost is still O(k) for k results).
+ * Searches a dataset using the query parameters shared by all of the list
+ * endpoints. Fuzzy results include the score of each match.
  */
-const createPrefixMap = (
-  objects: ObjectWithIataCode[],
-): Map<string, ObjectWithIataCode[]> => {
-  const map = new Map<string, ObjectWithIataCode[]>();
-
-  for (const object of objects) {
-    const code = object.iataCode.toLowerCase();
-    for (let i = 1; i <= code.length; i++) {
-      const prefix = code.slice(0, i);
-      let existing = map.get(prefix);
-      if (!existing) {
-        existing = [];
-        map.set(prefix, existing);
-      }
-      existing.push(object);
-    }
+const searchDatasetWithParams = <T extends ObjectWithIataCode>(
+  dataset: SearchableDataset<T>,
+  { query, name, icao, fuzzy }: QueryParams,
+): T[] | (T & { score: number })[] => {
+  if (fuzzy) {
+    return fuzzySearchDataset(dataset, { query, name, icao }).map(
+      ({ object, score }) => ({
+        ...object,
+        score,
+      }),
+    );
   }
 
-  return map;
+  return searchDataset(dataset, { query, name, icao });
 };
 
+// The most codes of each type which can be decoded in a single request, with
+// `POST /decode` or the `codes` parameter of the list endpoints
+const MAX_CODES_PER_DECODE_REQUEST = 100;
+
 /**
- * Lazily creates and memoizes a prefix map for a dataset so the underlying
- * loader and indexing work only happen on first use.
+ * Splits the `codes` parameter of a list endpoint into codes, throwing an
+ * `InvalidListOptionsError` if there are too many.
  */
-const createPrefixMapGetter = (
-  loader: () => ObjectWithIataCode[],
-): (() => Map<string, ObjectWithIataCode[]>) => {
-  let prefixMap: Map<string, ObjectWithIataCode[]> | undefined;
-
-  return (): Map<string, ObjectWithIataCode[]> => {
-    if (!prefixMap) {
-      prefixMap = createPrefixMap(loader());
-    }
-    return prefixMap;
-  };
+const parseCodesParam = (codes: string): string[] => {
+  const parsedCodes = parseCodeList(codes);
+  if (parsedCodes.length > MAX_CODES_PER_DECODE_REQUEST) {
+    throw new InvalidListOptionsError(
+      `codes must contain at most ${MAX_CODES_PER_DECODE_REQUEST} codes`,
+    );
+  }
+  return parsedCodes;
+};
+
+/**
+ * Builds the response for one of the list endpoints. If a list of exact codes
+ * is given, those are decoded (with any which don't exist listed in
+ * `notFound`) instead of searching, after being passed through `expandCodes`.
+ * Any extra filters are applied before the results are sorted and paginated,
+ * and `decorate` is applied to the page of results returned. Only fields in the
+ * item schema can be selected.
+ */
+const listDataset = <T extends ObjectWithIataCode & { name: string }>(
+  dataset: SearchableDataset<T>,
+  params: QueryParams,
+  itemSchema: { properties: object },
+  {
+    filter = (objects) => objects,
+    decorate,
+    expandCodes = (codes) => codes,
+  }: {
+    filter?: (objects: T[]) => T[];
+    decorate?: (objects: T[]) => T[];
+    expandCodes?: (codes: string[]) => string[];
+  } = {},
+): Page<T> & { notFound?: string[] } => {
+  const allowedFields = Object.keys(itemSchema.properties);
+
+  if (params.codes !== undefined) {
+    const { results, notFound } = decodeCodes(
+      dataset,
+      expandCodes(parseCodesParam(params.codes)),
+    );
+    return {
+      ...applyListOptions(
+        filter(Array.from(results.values())),
+        params,
+        allowedFields,
+        decorate,
+      ),
+      notFound,
+    };
+  }
+
+  return applyListOptions(
+    filter(searchDatasetWithParams(dataset, params)),
+    params,
+    allowedFields,
+    decorate,
+  );
+};
+
+/**
+ * If `query` is a city code (e.g. `LON`), adds the airports in that city to the
+ * search results, as long as they also match `name` and `icao`.
+ */
+const addCityAirports = <T extends Airport>(
+  airports: T[],
+  { query, name, icao }: QueryParams,
+): (T | Airport)[] => {
+  const cityAirports = query ? getCityAirports(query) : [];
+  if (cityAirports.length === 0) {
+    return airports;
+  }
+
+  const matchingAirports =
+    name || icao ? new Set(searchDataset(airportsDataset, { name, icao })) : undefined;
+  const includedIataCodes = new Set(airports.map((airport) => airport.iataCode));
+
+  return [
+    ...airports,
+    ...cityAirports.filter(
+      (airport) =>
+        !includedIataCodes.has(airport.iataCode) &&
+        (!matchingAirports || matchingAirports.has(airport)),
+    ),
+  ];
 };
 
-// Lazily initialize prefix maps on first use
-const getAirportsMap = createPrefixMapGetter(getAirports);
-const getAirlinesMap = createPrefixMapGetter(getAirlines);
-const getAircraftMap = createPrefixMapGetter(getAircraft);
+// Related data which can be embedded in airports with `include`
+const AIRPORT_INCLUDES = ['country', 'localTime'];
+
+// The most airports local times can be embedded in, which is the same as the
+// largest page, so every airport can't be asked for at once
+const MAX_AIRPORTS_WITH_LOCAL_TIME = MAX_PAGE_SIZE;
 
 /**
- * Filters objects by partial IATA code using a pre-calculated prefix map,
- * providing O(1) access to the matching candidate list.
+ * Embeds the related data asked for with `include` in each airport. Local times
+ * are worked out once per time zone, since many airports share one, and can
+ * only be embedded in a page or filtered list of airports, rather than all of
+ * them.
  */
-const filterObjectsByPartialIataCode = (
-  prefixMap: Map<string, ObjectWithIataCode[]>,
-  partialIataCode: string,
-  iataCodeLength: number,
-): ObjectWithIataCode[] => {
-  const normalizedQuery = partialIataCode.toLowerCase();
-  if (normalizedQuery.length > iataCodeLength) {
-    return [];
+const includeInAirports = <T extends Airport>(airports: T[], includes: string[]): T[] => {
+  if (includes.length === 0) {
+    return airports;
   }
 
-  return prefixMap.get(normalizedQuery) || [];
+  if (includes.includes('localTime') && airports.length > MAX_AIRPORTS_WITH_LOCAL_TIME) {
+    throw new InvalidListOptionsError(
+      `include=localTime can only be used for up to ${MAX_AIRPORTS_WITH_LOCAL_TIME} airports at once - use a filter or a limit`,
+    );
+  }
+
+  const now = new Date();
+  const localTimes = new Map<string, LocalTime>();
+  const getCachedLocalTime = (timeZone: string): LocalTime => {
+    let localTime = localTimes.get(timeZone);
+    if (!localTime) {
+      localTime = getLocalTime(timeZone, now);
+      localTimes.set(timeZone, localTime);
+    }
+    return localTime;
+  };
+
+  return airports.map((airport) => ({
+    ...airport,
+    ...(includes.includes('country') && {
+      country: findByIataCode(countriesDataset, airport.iataCountryCode) ?? null,
+    }),
+    ...(includes.includes('localTime') && {
+      localTime: getCachedLocalTime(airport.timeZone),
+    }),
+  }));
 };
 
 // Query parameter interface
-interface QueryParams {
+interface QueryParams extends ListOptions {
   query?: string;
+  name?: string;
+  icao?: string;
+  fuzzy?: boolean;
+  codes?: string;
 }
 
 // Health endpoint schema
@@ -292,6 +586,41 @@ const rootSchema = {
 };
 
 // Detailed schemas for optimized serialization via fast-json-stringify
+const countrySchema = {
+  type: 'object',
+  properties: {
+    iataCode: { type: 'string' },
+    name: { type: 'string' },
+    continent: { type: 'string' },
+    currencyCode: { type: 'string' },
+    airportCount: { type: 'integer' },
+    // Only included in fuzzy search results
+    score: { type: 'number' },
+  },
+};
+
+const utcOffsetTransitionSchema = {
+  type: ['object', 'null'],
+  properties: {
+    at: { type: 'string' },
+    utcOffset: { type: 'string' },
+    utcOffsetMinutes: { type: 'integer' },
+    isDst: { type: 'boolean' },
+  },
+};
+
+const localTimeSchema = {
+  type: 'object',
+  properties: {
+    timeZone: { type: 'string' },
+    localTime: { type: 'string' },
+    utcOffset: { type: 'string' },
+    utcOffsetMinutes: { type: 'integer' },
+    isDst: { type: 'boolean' },
+    nextTransition: utcOffsetTransitionSchema,
+  },
+};
+
 const airportSchema = {
   type: 'object',
   properties: {
@@ -303,6 +632,7 @@ const airportSchema = {
     longitude: { type: 'number' },
     timeZone: { type: 'string' },
     iataCountryCode: { type: 'string' },
+    iataCityCode: { type: 'string' },
     cityName: { type: 'string' },
     city: {
       type: ['object', 'null'],
@@ -313,6 +643,19 @@ const airportSchema = {
         name: { type: 'string' },
       },
     },
+    // Only included in fuzzy search results
+    score: { type: 'number' },
+    // Only included in nearby airport search results
+    distanceKm: { type: 'number' },
+    // Only included with `include=country`
+    country: { ...countrySchema, type: ['object', 'null'] },
+    // Only included with `include=localTime`
+    localTime: localTimeSchema,
+    // Only included for airports added or changed by an overlay
+    source: { type: 'string' },
+    // Only included for airports which are only valid for a period
+    validFrom: { type: ['string', 'null'] },
+    validTo: { type: ['string', 'null'] },
   },
 };
 
@@ -321,27 +664,184 @@ const airlineSchema = {
   properties: {
     id: { type: 'string' },
     iataCode: { type: 'string' },
+    icaoCode: { type: ['string', 'null'] },
     name: { type: 'string' },
+    logoSymbolUrl: { type: ['string', 'null'] },
+    logoLockupUrl: { type: ['string', 'null'] },
+    conditionsOfCarriageUrl: { type: ['string', 'null'] },
+    // Only included in fuzzy search results
+    score: { type: 'number' },
+    // Only included for airlines added or changed by an overlay
+    source: { type: 'string' },
+    // Only included for airlines which are only valid for a period
+    validFrom: { type: ['string', 'null'] },
+    validTo: { type: ['string', 'null'] },
   },
 };
 
+const AIRCRAFT_BODY_TYPES = ['wide', 'narrow'];
+const AIRCRAFT_ENGINE_TYPES = ['jet', 'turboprop', 'piston', 'helicopter'];
+
 const aircraftSchema = {
   type: 'object',
   properties: {
     id: { type: 'string' },
     iataCode: { type: 'string' },
     name: { type: 'string' },
+    icaoCode: { type: ['string', 'null'] },
+    manufacturer: { type: ['string', 'null'] },
+    family: { type: ['string', 'null'] },
+    bodyType: { type: ['string', 'null'] },
+    engineType: { type: ['string', 'null'] },
+    discontinued: { type: 'boolean' },
+    // Only included in fuzzy search results
+    score: { type: 'number' },
+    // Only included for aircraft added or changed by an overlay
+    source: { type: 'string' },
+    // Only included for aircraft which are only valid for a period
+    validFrom: { type: ['string', 'null'] },
+    validTo: { type: ['string', 'null'] },
+  },
+};
+
+const citySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    iataCode: { type: 'string' },
+    iataCountryCode: { type: 'string' },
+    name: { type: 'string' },
+    // Only included in fuzzy search results
+    score: { type: 'number' },
   },
 };
 
+const codeListSchema = {
+  type: 'array',
+  items: { type: 'string' },
+};
+
 // Query schema
 const queryStringSchema = {
   type: 'object',
   properties: {
-    query: { type: 'string' },
+    query: { type: 'string', maxLength: MAX_SEARCH_TEXT_LENGTH },
+    name: { type: 'string', maxLength: MAX_SEARCH_TEXT_LENGTH },
+    fuzzy: { type: 'boolean' },
+    // A comma-separated list of exact IATA codes to decode
+    codes: { type: 'string' },
+    limit: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE },
+    cursor: { type: 'string' },
+    fields: { type: 'string' },
+    sort: { type: 'string', enum: SORT_ORDERS },
   },
 };
 
+// Query schema for datasets which can also be searched by ICAO code
+const icaoQueryStringSchema = {
+  type: 'object',
+  properties: {
+    ...queryStringSchema.properties,
+    icao: { type: 'string', maxLength: MAX_SEARCH_TEXT_LENGTH },
+  },
+};
+
+// Query parameters for datasets with historical records
+interface HistoricalQueryParams {
+  // A YYYY-MM-DD date to return the records which were valid on, rather than
+  // the current ones
+  asOf?: string;
+}
+
+// Query schema for datasets with historical records, which can also be searched
+// by ICAO code
+const historicalQueryStringSchema = {
+  type: 'object',
+  properties: {
+    ...icaoQueryStringSchema.properties,
+    asOf: { type: 'string', format: 'date' },
+  },
+};
+
+interface AircraftQueryParams
+  extends QueryParams, HistoricalQueryParams, AircraftFilters {}
+
+const aircraftQueryStringSchema = {
+  type: 'object',
+  properties: {
+    ...historicalQueryStringSchema.properties,
+    manufacturer: { type: 'string' },
+    family: { type: 'string' },
+    bodyType: { type: 'string', enum: AIRCRAFT_BODY_TYPES },
+    engineType: { type: 'string', enum: AIRCRAFT_ENGINE_TYPES },
+    discontinued: { type: 'boolean' },
+  },
+};
+
+interface AirlineQueryParams extends QueryParams, HistoricalQueryParams, AirlineFilters {}
+
+const airlineQueryStringSchema = {
+  type: 'object',
+  properties: {
+    ...historicalQueryStringSchema.properties,
+    hasLogo: { type: 'boolean' },
+  },
+};
+
+interface AirportQueryParams extends QueryParams, HistoricalQueryParams, AirportFilters {
+  // Whether to expand city codes in `query` and `codes` to the airports in that
+  // city
+  expandCities?: boolean;
+  // A comma-separated list of related records to embed, from `AIRPORT_INCLUDES`
+  include?: string;
+}
+
+const airportQueryStringSchema = {
+  type: 'object',
+  properties: {
+    ...historicalQueryStringSchema.properties,
+    country: { type: 'string' },
+    city: { type: 'string' },
+    timeZone: { type: 'string' },
+    expandCities: { type: 'boolean' },
+    include: { type: 'string' },
+  },
+};
+
+// Error schema, matching the body of Fastify's own error responses
+const errorSchema = {
+  type: 'object',
+  properties: {
+    statusCode: { type: 'number' },
+    error: { type: 'string' },
+    message: { type: 'string' },
+  },
+};
+
+// Response schemas for the list endpoints, which return `meta` when paginating
+// and `notFound` when decoding a list of codes
+const createListResponseSchema = (itemSchema: object) => ({
+  200: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: itemSchema,
+      },
+      meta: {
+        type: 'object',
+        properties: {
+          total: { type: 'integer' },
+          limit: { type: 'integer' },
+          nextCursor: { type: ['string', 'null'] },
+        },
+      },
+      notFound: codeListSchema,
+    },
+  },
+  400: errorSchema,
+});
+
 app.get(
   '/',
   {
@@ -354,6 +854,8 @@ app.get(
   },
 );
 
+app.get('/openapi.json', async () => app.swagger());
+
 app.get(
   '/health',
   {
@@ -369,102 +871,1055 @@ app.get(
   },
 );
 
-app.get<{ Querystring: QueryParams }>(
-  '/airports',
+// Used to count the objects of each resource for `/meta`
+const RESOURCE_LOADERS: Record<Resource, () => unknown[]> = {
+  airports: airportsDataset.getObjects,
+  airlines: airlinesDataset.getObjects,
+  aircraft: aircraftDataset.getObjects,
+  cities: citiesDataset.getObjects,
+  countries: countriesDataset.getObjects,
+};
+
+const resourceVersionSchema = {
+  type: 'object',
+  properties: {
+    // Matches the resource's `ETag`
+    version: { type: 'string' },
+    lastModified: { type: 'string', format: 'date-time' },
+    count: { type: 'integer' },
+  },
+};
+
+app.get(
+  '/meta',
   {
     schema: {
-      querystring: queryStringSchema,
       response: {
         200: {
           type: 'object',
           properties: {
             data: {
-              type: 'array',
-              items: airportSchema,
+              type: 'object',
+              properties: Object.fromEntries(
+                Object.keys(RESOURCE_DATASETS).map((resource) => [
+                  resource,
+                  resourceVersionSchema,
+                ]),
+              ),
+            },
+            meta: {
+              type: 'object',
+              properties: {
+                // The version to pass to `/changes` as `since`, which isn't the
+                // same as any resource's version
+                changelogVersion: { type: ['string', 'null'] },
+              },
             },
           },
         },
       },
     },
   },
-  async (request: FastifyRequest<{ Querystring: QueryParams }>, reply: FastifyReply) => {
+  async (request: FastifyRequest, reply: FastifyReply) => {
     reply.header('Content-Type', 'application/json');
-    reply.header('Cache-Control', `public, max-age=${ONE_DAY_IN_SECONDS}`);
+    // Clients check this to find out when to resync, so it's always revalidated
+    reply.header('Cache-Control', 'no-cache');
 
-    if (request.query.query === undefined || request.query.query === '') {
-      return { data: getAirports() };
-    } else {
-      const query = request.query.query;
-      const airports = filterObjectsByPartialIataCode(getAirportsMap(), query, 3);
-      return { data: airports };
+    const allDatasetNames = [
+      ...new Set([...Object.values(RESOURCE_DATASETS).flat(), 'changelog' as const]),
+    ];
+    if (setCacheValidators(request, reply, allDatasetNames)) {
+      return reply.code(304).send();
     }
+
+    const resources = Object.keys(RESOURCE_DATASETS) as Resource[];
+    return {
+      data: Object.fromEntries(
+        resources.map((resource) => [
+          resource,
+          {
+            ...getResourceVersion(RESOURCE_DATASETS[resource]),
+            count: RESOURCE_LOADERS[resource]().length,
+          },
+        ]),
+      ),
+      meta: { changelogVersion: getLatestVersion() },
+    };
   },
 );
 
-app.get<{ Querystring: QueryParams }>(
-  '/airlines',
+interface ChangesQueryParams {
+  // The changelog version of the data the client already has, from
+  // `meta.latestVersion` here or `meta.changelogVersion` in `/meta`
+  since?: string;
+}
+
+const createDatasetChangesSchema = (recordSchema: object) => ({
+  type: 'object',
+  properties: {
+    added: { type: 'array', items: recordSchema },
+    removed: { type: 'array', items: recordSchema },
+    modified: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          iataCode: { type: ['string', 'null'] },
+          // Keyed by field name, with the field's value before and after
+          fields: {
+            type: 'object',
+            additionalProperties: {
+              type: 'object',
+              properties: { from: {}, to: {} },
+            },
+          },
+        },
+      },
+    },
+  },
+});
+
+app.get<{ Querystring: ChangesQueryParams }>(
+  '/changes',
   {
     schema: {
-      querystring: queryStringSchema,
+      querystring: {
+        type: 'object',
+        properties: {
+          since: { type: 'string' },
+        },
+      },
       response: {
         200: {
           type: 'object',
           properties: {
             data: {
               type: 'array',
-              items: airlineSchema,
+              items: {
+                type: 'object',
+                properties: {
+                  version: { type: 'string' },
+                  previousVersion: { type: ['string', 'null'] },
+                  date: { type: 'string' },
+                  changes: {
+                    type: 'object',
+                    properties: {
+                      airports: createDatasetChangesSchema(airportSchema),
+                      airlines: createDatasetChangesSchema(airlineSchema),
+                      aircraft: createDatasetChangesSchema(aircraftSchema),
+                    },
+                  },
+                },
+              },
+            },
+            meta: {
+              type: 'object',
+              properties: {
+                latestVersion: { type: ['string', 'null'] },
+              },
             },
           },
         },
+        404: errorSchema,
       },
     },
   },
-  async (request: FastifyRequest<{ Querystring: QueryParams }>, reply: FastifyReply) => {
+  async (
+    request: FastifyRequest<{ Querystring: ChangesQueryParams }>,
+    reply: FastifyReply,
+  ) => {
+    reply.header('Content-Type', 'application/json');
+    // Clients check this to find out what to resync, so it's always revalidated
+    reply.header('Cache-Control', 'no-cache');
+
+    if (setCacheValidators(request, reply, ['changelog'])) {
+      return reply.code(304).send();
+    }
+
+    return {
+      data: getChangesSince(request.query.since).map(presentChangelogEntry),
+      meta: { latestVersion: getLatestVersion() },
+    };
+  },
+);
+
+app.get<{ Querystring: AirportQueryParams }>(
+  '/airports',
+  {
+    schema: {
+      querystring: airportQueryStringSchema,
+      response: createListResponseSchema(airportSchema),
+    },
+  },
+  async (
+    request: FastifyRequest<{ Querystring: AirportQueryParams }>,
+    reply: FastifyReply,
+  ) => {
     reply.header('Content-Type', 'application/json');
     reply.header('Cache-Control', `public, max-age=${ONE_DAY_IN_SECONDS}`);
 
-    if (request.query.query === undefined || request.query.query === '') {
-      return { data: getAirlines() };
-    } else {
-      const query = request.query.query;
-      const airlines = filterObjectsByPartialIataCode(getAirlinesMap(), query, 2);
+    const { country, city, timeZone, expandCities, include, asOf, ...params } =
+      request.query;
+    const includes =
+      include !== undefined
+        ? parseAllowedValues(include, AIRPORT_INCLUDES, 'includes')
+        : [];
 
-      return {
-        data: airlines,
-      };
+    if (includes.includes('localTime')) {
+      // Local times go out of date quickly, so this can't be cached for long, and
+      // the response changes even when the data doesn't
+      reply.header('Cache-Control', `public, max-age=${ONE_MINUTE_IN_SECONDS}`);
+    } else if (setCacheValidators(request, reply, RESOURCE_DATASETS.airports)) {
+      return reply.code(304).send();
     }
+
+    const dataset = asOf ? getAirportsDatasetAsOf(asOf) : airportsDataset;
+    return listDataset(dataset, params, airportSchema, {
+      expandCodes: expandCities ? expandCityCodes : undefined,
+      filter: (airports) => {
+        const filteredAirports = filterAirports(
+          expandCities ? addCityAirports(airports, params) : airports,
+          { country, city, timeZone },
+        );
+        // City airports are always current ones, so they're checked too
+        return asOf
+          ? filteredAirports.filter((airport) => isValidOn(airport, asOf))
+          : filteredAirports;
+      },
+      decorate: (airports) => includeInAirports(airports, includes),
+    });
   },
 );
 
-app.get<{ Querystring: QueryParams }>(
-  '/aircraft',
+app.get<{ Querystring: AirlineQueryParams }>(
+  '/airlines',
   {
     schema: {
-      querystring: queryStringSchema,
-      response: {
-        200: {
-          type: 'object',
-          properties: {
-            data: {
-              type: 'array',
-              items: aircraftSchema,
-            },
-          },
-        },
-      },
+      querystring: airlineQueryStringSchema,
+      response: createListResponseSchema(airlineSchema),
     },
   },
-  async (request: FastifyRequest<{ Querystring: QueryParams }>, reply: FastifyReply) => {
+  async (
+    request: FastifyRequest<{ Querystring: AirlineQueryParams }>,
+    reply: FastifyReply,
+  ) => {
     reply.header('Content-Type', 'application/json');
     reply.header('Cache-Control', `public, max-age=${ONE_DAY_IN_SECONDS}`);
 
-    if (request.query.query === undefined || request.query.query === '') {
-      return { data: getAircraft() };
-    } else {
-      const query = request.query.query;
-      const aircraft = filterObjectsByPartialIataCode(getAircraftMap(), query, 3);
-      return { data: aircraft };
+    if (setCacheValidators(request, reply, RESOURCE_DATASETS.airlines)) {
+      return reply.code(304).send();
     }
+
+    const { hasLogo, asOf, ...params } = request.query;
+    const dataset = asOf ? getAirlinesDatasetAsOf(asOf) : airlinesDataset;
+    return listDataset(dataset, params, airlineSchema, {
+      filter: (airlines) => filterAirlines(airlines, { hasLogo }),
+    });
+  },
+);
+
+app.get<{ Querystring: AircraftQueryParams }>(
+  '/aircraft',
+  {
+    schema: {
+      querystring: aircraftQueryStringSchema,
+      response: createListResponseSchema(aircraftSchema),
+    },
+  },
+  async (
+    request: FastifyRequest<{ Querystring: AircraftQueryParams }>,
+    reply: FastifyReply,
+  ) => {
+    reply.header('Content-Type', 'application/json');
+    reply.header('Cache-Control', `public, max-age=${ONE_DAY_IN_SECONDS}`);
+
+    if (setCacheValidators(request, reply, RESOURCE_DATASETS.aircraft)) {
+      return reply.code(304).send();
+    }
+
+    const { manufacturer, family, bodyType, engineType, discontinued, asOf, ...params } =
+      request.query;
+    const dataset = asOf ? getAircraftDatasetAsOf(asOf) : aircraftDataset;
+    return listDataset(dataset, params, aircraftSchema, {
+      filter: (aircraft) =>
+        filterAircraft(aircraft, {
+          manufacturer,
+          family,
+          bodyType,
+          engineType,
+          discontinued,
+        }),
+    });
+  },
+);
+
+interface IataCodeParams {
+  iataCode: string;
+}
+
+interface IdParams {
+  id: string;
+}
+
+app.get<{ Querystring: QueryParams }>(
+  '/cities',
+  {
+    schema: {
+      querystring: queryStringSchema,
+      response: createListResponseSchema(citySchema),
+    },
+  },
+  async (request: FastifyRequest<{ Querystring: QueryParams }>, reply: FastifyReply) => {
+    reply.header('Content-Type', 'application/json');
+    reply.header('Cache-Control', `public, max-age=${ONE_DAY_IN_SECONDS}`);
+
+    if (setCacheValidators(request, reply, RESOURCE_DATASETS.cities)) {
+      return reply.code(304).send();
+    }
+
+    return listDataset(citiesDataset, request.query, citySchema);
+  },
+);
+
+app.get<{ Params: IataCodeParams }>(
+  '/cities/:iataCode/airports',
+  {
+    schema: {
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: {
+              type: 'array',
+              items: airportSchema,
+            },
+          },
+        },
+        404: errorSchema,
+      },
+    },
+  },
+  async (request: FastifyRequest<{ Params: IataCodeParams }>, reply: FastifyReply) => {
+    reply.header('Content-Type', 'application/json');
+    reply.header('Cache-Control', `public, max-age=${ONE_DAY_IN_SECONDS}`);
+
+    if (setCacheValidators(request, reply, RESOURCE_DATASETS.cities)) {
+      return reply.code(304).send();
+    }
+
+    const { iataCode } = request.params;
+    const airports = getCityAirports(iataCode);
+    if (airports.length === 0) {
+      reply.code(404);
+      return {
+        statusCode: 404,
+        error: 'Not Found',
+        message: `No city found with IATA code ${iataCode}`,
+      };
+    }
+
+    return { data: airports };
+  },
+);
+
+app.get<{ Querystring: QueryParams }>(
+  '/countries',
+  {
+    schema: {
+      querystring: queryStringSchema,
+      response: createListResponseSchema(countrySchema),
+    },
+  },
+  async (request: FastifyRequest<{ Querystring: QueryParams }>, reply: FastifyReply) => {
+    reply.header('Content-Type', 'application/json');
+    reply.header('Cache-Control', `public, max-age=${ONE_DAY_IN_SECONDS}`);
+
+    if (setCacheValidators(request, reply, RESOURCE_DATASETS.countries)) {
+      return reply.code(304).send();
+    }
+
+    return listDataset(countriesDataset, request.query, countrySchema);
+  },
+);
+
+interface NearbyQueryParams {
+  lat: number;
+  lng: number;
+  radiusKm: number;
+  limit: number;
+}
+
+const nearbyQueryStringSchema = {
+  type: 'object',
+  properties: {
+    lat: { type: 'number', minimum: -90, maximum: 90 },
+    lng: { type: 'number', minimum: -180, maximum: 180 },
+    radiusKm: { type: 'number', exclusiveMinimum: 0, maximum: 5000, default: 100 },
+    limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+  },
+  required: ['lat', 'lng'],
+};
+
+app.get<{ Querystring: NearbyQueryParams }>(
+  '/airports/nearby',
+  {
+    schema: {
+      querystring: nearbyQueryStringSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: {
+              type: 'array',
+              items: airportSchema,
+            },
+          },
+        },
+      },
+    },
+  },
+  async (
+    request: FastifyRequest<{ Querystring: NearbyQueryParams }>,
+    reply: FastifyReply,
+  ) => {
+    reply.header('Content-Type', 'application/json');
+    reply.header('Cache-Control', `public, max-age=${ONE_DAY_IN_SECONDS}`);
+
+    const { lat, lng, radiusKm, limit } = request.query;
+    const airports = findNearby(
+      getAirportsSpatialIndex(),
+      { latitude: lat, longitude: lng },
+      radiusKm,
+      limit,
+    );
+
+    return {
+      data: airports.map(({ object, distanceKm }) => ({
+        ...object,
+        distanceKm: Math.round(distanceKm * 100) / 100,
+      })),
+    };
+  },
+);
+
+interface RouteQueryParams {
+  from: string;
+  to: string;
+}
+
+const routeSchema = {
+  querystring: {
+    type: 'object',
+    properties: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+    },
+    required: ['from', 'to'],
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'object',
+          properties: {
+            from: airportSchema,
+            to: airportSchema,
+            distanceKm: { type: 'number' },
+            distanceMi: { type: 'number' },
+            distanceNm: { type: 'number' },
+            initialBearing: { type: 'number' },
+            fromTimeZone: { type: 'string' },
+            toTimeZone: { type: 'string' },
+            fromUtcOffset: { type: 'string' },
+            toUtcOffset: { type: 'string' },
+            utcOffsetDifferenceMinutes: { type: 'number' },
+          },
+        },
+      },
+    },
+    404: errorSchema,
+  },
+};
+
+app.get<{ Querystring: RouteQueryParams }>(
+  '/routes',
+  { schema: routeSchema },
+  async (
+    request: FastifyRequest<{ Querystring: RouteQueryParams }>,
+    reply: FastifyReply,
+  ) => {
+    reply.header('Content-Type', 'application/json');
+    // The UTC offsets change with daylight saving time, so this can't be cached
+    // for as long as the datasets
+    reply.header('Cache-Control', 'public, max-age=3600');
+
+    const { from, to } = request.query;
+    const fromAirport = findByIataCode(airportsDataset, from);
+    const toAirport = findByIataCode(airportsDataset, to);
+
+    if (!fromAirport || !toAirport) {
+      reply.code(404);
+      return {
+        statusCode: 404,
+        error: 'Not Found',
+        message: `No airport found with IATA code ${fromAirport ? to : from}`,
+      };
+    }
+
+    return { data: calculateRoute(fromAirport, toAirport) };
+  },
+);
+
+app.get<{ Params: IataCodeParams }>(
+  '/airports/:iataCode/time',
+  {
+    schema: {
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: {
+              type: 'object',
+              properties: {
+                iataCode: { type: 'string' },
+                ...localTimeSchema.properties,
+              },
+            },
+          },
+        },
+        404: errorSchema,
+      },
+    },
+  },
+  async (request: FastifyRequest<{ Params: IataCodeParams }>, reply: FastifyReply) => {
+    reply.header('Content-Type', 'application/json');
+    reply.header('Cache-Control', `public, max-age=${ONE_MINUTE_IN_SECONDS}`);
+
+    const { iataCode } = request.params;
+    const airport = findByIataCode(airportsDataset, iataCode);
+    if (!airport) {
+      reply.code(404);
+      return {
+        statusCode: 404,
+        error: 'Not Found',
+        message: `No airport found with IATA code ${iataCode}`,
+      };
+    }
+
+    return { data: { iataCode: airport.iataCode, ...getLocalTime(airport.timeZone) } };
+  },
+);
+
+interface FlightTimesQueryParams {
+  from: string;
+  to: string;
+  // A local date and time without an offset, e.g. "2026-03-29T10:30"
+  departure: string;
+  durationMinutes: number;
+}
+
+// The longest flight duration which can be converted, in minutes
+const MAX_FLIGHT_DURATION_MINUTES = 60 * 48;
+
+const airportTimeSchema = {
+  type: 'object',
+  properties: {
+    iataCode: { type: 'string' },
+    timeZone: { type: 'string' },
+    localTime: { type: 'string' },
+    utcOffset: { type: 'string' },
+    utc: { type: 'string' },
+  },
+};
+
+const flightTimesSchema = {
+  querystring: {
+    type: 'object',
+    properties: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      departure: { type: 'string' },
+      durationMinutes: {
+        type: 'integer',
+        minimum: 0,
+        maximum: MAX_FLIGHT_DURATION_MINUTES,
+      },
+    },
+    required: ['from', 'to', 'departure', 'durationMinutes'],
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'object',
+          properties: {
+            departure: airportTimeSchema,
+            arrival: airportTimeSchema,
+            durationMinutes: { type: 'integer' },
+          },
+        },
+      },
+    },
+    400: errorSchema,
+    404: errorSchema,
+  },
+};
+
+app.get<{ Querystring: FlightTimesQueryParams }>(
+  '/time/convert',
+  { schema: flightTimesSchema },
+  async (
+    request: FastifyRequest<{ Querystring: FlightTimesQueryParams }>,
+    reply: FastifyReply,
+  ) => {
+    reply.header('Content-Type', 'application/json');
+    reply.header('Cache-Control', `public, max-age=${ONE_DAY_IN_SECONDS}`);
+
+    const { from, to, departure, durationMinutes } = request.query;
+    const fromAirport = findByIataCode(airportsDataset, from);
+    const toAirport = findByIataCode(airportsDataset, to);
+
+    if (!fromAirport || !toAirport) {
+      reply.code(404);
+      return {
+        statusCode: 404,
+        error: 'Not Found',
+        message: `No airport found with IATA code ${fromAirport ? to : from}`,
+      };
+    }
+
+    const flightTimes = calculateFlightTimes(
+      fromAirport,
+      toAirport,
+      departure,
+      durationMinutes,
+    );
+    if (!flightTimes) {
+      reply.code(400);
+      return {
+        statusCode: 400,
+        error: 'Bad Request',
+        message: `Invalid departure time ${departure}, expected a local date and time like 2026-03-29T10:30`,
+      };
+    }
+
+    return { data: flightTimes };
+  },
+);
+
+interface DecodeBody {
+  airports?: string[];
+  airlines?: string[];
+  aircraft?: string[];
+}
+
+const decodeCodeListSchema = {
+  ...codeListSchema,
+  maxItems: MAX_CODES_PER_DECODE_REQUEST,
+};
+
+const decodeSchema = {
+  body: {
+    type: 'object',
+    properties: {
+      airports: decodeCodeListSchema,
+      airlines: decodeCodeListSchema,
+      aircraft: decodeCodeListSchema,
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'object',
+          properties: {
+            airports: { type: 'object', additionalProperties: airportSchema },
+            airlines: { type: 'object', additionalProperties: airlineSchema },
+            aircraft: { type: 'object', additionalProperties: aircraftSchema },
+          },
+        },
+        notFound: {
+          type: 'object',
+          properties: {
+            airports: codeListSchema,
+            airlines: codeListSchema,
+            aircraft: codeListSchema,
+          },
+        },
+      },
+    },
+  },
+};
+
+app.post<{ Body: DecodeBody }>(
+  '/decode',
+  { schema: decodeSchema },
+  async (request: FastifyRequest<{ Body: DecodeBody }>, reply: FastifyReply) => {
+    reply.header('Content-Type', 'application/json');
+
+    const { airports = [], airlines = [], aircraft = [] } = request.body || {};
+    const decodedAirports = decodeCodes(airportsDataset, airports);
+    const decodedAirlines = decodeCodes(airlinesDataset, airlines);
+    const decodedAircraft = decodeCodes(aircraftDataset, aircraft);
+
+    return {
+      data: {
+        airports: Object.fromEntries(decodedAirports.results),
+        airlines: Object.fromEntries(decodedAirlines.results),
+        aircraft: Object.fromEntries(decodedAircraft.results),
+      },
+      notFound: {
+        airports: decodedAirports.notFound,
+        airlines: decodedAirlines.notFound,
+        aircraft: decodedAircraft.notFound,
+      },
+    };
+  },
+);
+
+interface DecodeTextBody {
+  text: string;
+}
+
+// The longest text which can be decoded in a single request
+const MAX_DECODE_TEXT_LENGTH = 1000;
+
+const decodeTextSchema = {
+  body: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', maxLength: MAX_DECODE_TEXT_LENGTH },
+    },
+    required: ['text'],
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'object',
+          properties: {
+            text: { type: 'string' },
+            tokens: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  token: { type: 'string' },
+                  type: { type: 'string' },
+                  flightNumber: { type: 'string' },
+                  airline: airlineSchema,
+                  airport: airportSchema,
+                  airports: { type: 'array', items: airportSchema },
+                  aircraft: aircraftSchema,
+                },
+              },
+            },
+            airports: { type: 'array', items: airportSchema },
+            airlines: { type: 'array', items: airlineSchema },
+            aircraft: { type: 'array', items: aircraftSchema },
+          },
+        },
+      },
+    },
+  },
+};
+
+app.post<{ Body: DecodeTextBody }>(
+  '/decode/text',
+  { schema: decodeTextSchema },
+  async (request: FastifyRequest<{ Body: DecodeTextBody }>, reply: FastifyReply) => {
+    reply.header('Content-Type', 'application/json');
+
+    return { data: decodeText(request.body.text) };
+  },
+);
+
+/**
+ * Registers endpoints for fetching a single object from a dataset by its exact
+ * IATA code (e.g. `/airports/LHR`) or Duffel ID (e.g. `/airports/by-id/arp_lhr_gb`),
+ * returning a 404 if there is no such object. Datasets without IDs only get
+ * the first.
+ */
+const registerSingleObjectRoutes = <T extends ObjectWithIataCode>(
+  resource: Resource,
+  dataset: SearchableDataset<T>,
+  objectSchema: object,
+  description: string,
+): void => {
+  const schema = {
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          data: objectSchema,
+        },
+      },
+      404: errorSchema,
+    },
+  };
+
+  const sendObjectOrNotFound = (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    findObject: () => T | undefined,
+    notFoundMessage: string,
+  ) => {
+    reply.header('Content-Type', 'application/json');
+    reply.header('Cache-Control', `public, max-age=${ONE_DAY_IN_SECONDS}`);
+
+    if (setCacheValidators(request, reply, RESOURCE_DATASETS[resource])) {
+      return reply.code(304).send();
+    }
+
+    const object = findObject();
+    if (!object) {
+      reply.code(404);
+      return { statusCode: 404, error: 'Not Found', message: notFoundMessage };
+    }
+
+    return { data: object };
+  };
+
+  app.get<{ Params: IataCodeParams }>(
+    `/${resource}/:iataCode`,
+    { schema },
+    async (request: FastifyRequest<{ Params: IataCodeParams }>, reply: FastifyReply) => {
+      const { iataCode } = request.params;
+      return sendObjectOrNotFound(
+        request,
+        reply,
+        () => findByIataCode(dataset, iataCode),
+        `No ${description} found with IATA code ${iataCode}`,
+      );
+    },
+  );
+
+  if (!dataset.getIdMap) {
+    return;
+  }
+
+  app.get<{ Params: IdParams }>(
+    `/${resource}/by-id/:id`,
+    { schema },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const { id } = request.params;
+      return sendObjectOrNotFound(
+        request,
+        reply,
+        () => findById(dataset, id),
+        `No ${description} found with ID ${id}`,
+      );
+    },
+  );
+};
+
+registerSingleObjectRoutes('airports', airportsDataset, airportSchema, 'airport');
+registerSingleObjectRoutes('airlines', airlinesDataset, airlineSchema, 'airline');
+registerSingleObjectRoutes('aircraft', aircraftDataset, aircraftSchema, 'aircraft');
+registerSingleObjectRoutes('cities', citiesDataset, citySchema, 'city');
+registerSingleObjectRoutes('countries', countriesDataset, countrySchema, 'country');
+
+// Hashing both tokens first means they're the same length, which
+// `timingSafeEqual` requires
+const tokensMatch = (token: string, expectedToken: string): boolean =>
+  timingSafeEqual(
+    createHash('sha256').update(token).digest(),
+    createHash('sha256').update(expectedToken).digest(),
+  );
+
+/**
+ * Only lets requests through with the `ADMIN_TOKEN` as a bearer token in their
+ * `Authorization` header. If no `ADMIN_TOKEN` is set, admin endpoints are
+ * turned off.
+ */
+const authenticateAdmin = async (request: FastifyRequest, reply: FastifyReply) => {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    reply.code(403);
+    return reply.send({
+      statusCode: 403,
+      error: 'Forbidden',
+      message: 'Admin endpoints are disabled because no ADMIN_TOKEN is set',
+    });
+  }
+
+  const [scheme, token] = (request.headers.authorization || '').split(' ');
+  if (scheme !== 'Bearer' || !token || !tokensMatch(token, adminToken)) {
+    reply.code(401);
+    return reply.send({
+      statusCode: 401,
+      error: 'Unauthorized',
+      message: 'A valid admin token is required',
+    });
+  }
+};
+
+const adminErrorResponseSchema = {
+  401: errorSchema,
+  403: errorSchema,
+};
+
+app.post(
+  '/admin/reload',
+  {
+    preHandler: authenticateAdmin,
+    schema: {
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: {
+              type: 'object',
+              properties: {
+                version: { type: 'integer' },
+                loadedAt: { type: 'string', format: 'date-time' },
+                dataDir: { type: 'string' },
+                counts: {
+                  type: 'object',
+                  properties: {
+                    airports: { type: 'integer' },
+                    airlines: { type: 'integer' },
+                    aircraft: { type: 'integer' },
+                    countries: { type: 'integer' },
+                    changelog: { type: 'integer' },
+                    overlays: { type: 'integer' },
+                  },
+                },
+              },
+            },
+          },
+        },
+        ...adminErrorResponseSchema,
+        422: errorSchema,
+      },
+    },
+  },
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    reply.header('Content-Type', 'application/json');
+    reply.header('Cache-Control', 'no-store');
+
+    const result = await reloadData();
+    request.log.info(result, 'Reloaded data');
+    return { data: result };
+  },
+);
+
+interface OverlayParams {
+  dataset: RecordDatasetName;
+  iataCode: string;
+}
+
+const overlayParamsSchema = {
+  type: 'object',
+  properties: {
+    dataset: { type: 'string', enum: RECORD_DATASETS },
+    iataCode: { type: 'string' },
+  },
+};
+
+// Overlays have the same fields as the records they change, so they aren't
+// listed here
+const overlaySchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    dataset: { type: 'string' },
+    iataCode: { type: 'string' },
+    hidden: { type: 'boolean' },
+  },
+};
+
+app.get(
+  '/admin/overlays',
+  {
+    preHandler: authenticateAdmin,
+    schema: {
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: overlaySchema },
+          },
+        },
+        ...adminErrorResponseSchema,
+      },
+    },
+  },
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    reply.header('Content-Type', 'application/json');
+    reply.header('Cache-Control', 'no-store');
+
+    return { data: getOverlays().map(presentOverlay) };
+  },
+);
+
+app.put<{ Params: OverlayParams; Body: Record<string, unknown> }>(
+  '/admin/overlays/:dataset/:iataCode',
+  {
+    preHandler: authenticateAdmin,
+    schema: {
+      params: overlayParamsSchema,
+      body: overlaySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: overlaySchema,
+          },
+        },
+        ...adminErrorResponseSchema,
+        422: errorSchema,
+      },
+    },
+  },
+  async (
+    request: FastifyRequest<{ Params: OverlayParams; Body: Record<string, unknown> }>,
+    reply: FastifyReply,
+  ) => {
+    reply.header('Content-Type', 'application/json');
+    reply.header('Cache-Control', 'no-store');
+
+    const { dataset, iataCode } = request.params;
+    const overlay = createOverlay(dataset, iataCode, request.body);
+    await saveOverlay(overlay);
+    request.log.info({ dataset, iataCode }, 'Saved overlay');
+    return { data: presentOverlay(overlay) };
+  },
+);
+
+app.delete<{ Params: OverlayParams }>(
+  '/admin/overlays/:dataset/:iataCode',
+  {
+    preHandler: authenticateAdmin,
+    schema: {
+      params: overlayParamsSchema,
+      response: {
+        ...adminErrorResponseSchema,
+        404: errorSchema,
+        422: errorSchema,
+      },
+    },
+  },
+  async (request: FastifyRequest<{ Params: OverlayParams }>, reply: FastifyReply) => {
+    reply.header('Cache-Control', 'no-store');
+
+    const { dataset, iataCode } = request.params;
+    if (!(await deleteOverlay(dataset, iataCode))) {
+      reply.code(404);
+      return {
+        statusCode: 404,
+        error: 'Not Found',
+        message: `No overlay found for ${dataset} ${iataCode}`,
+      };
+    }
+
+    request.log.info({ dataset, iataCode }, 'Deleted overlay');
+    return reply.code(204).send();
   },
 );
 
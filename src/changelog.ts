@@ -0,0 +1,238 @@
+import { createHash } from 'node:crypto';
+import { isDeepStrictEqual } from 'node:util';
+import { Keyable } from './types.js';
+import { getData, memoizeUntilReload } from './data-source.js';
+import { airportDataToAirport } from './airports.js';
+import { aircraftDataToAircraft } from './aircraft.js';
+import { cameliseKeys } from './utils.js';
+
+// The datasets which changes are recorded for. Countries are our own list, so
+// they're tracked in git rather than here.
+export const CHANGELOG_DATASETS = ['airports', 'airlines', 'aircraft'] as const;
+
+export type ChangelogDatasetName = (typeof CHANGELOG_DATASETS)[number];
+
+// The raw records from each of the tracked data files
+export type ChangelogSnapshot = Record<ChangelogDatasetName, Keyable[]>;
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+// Entries are stored with snake case keys, like the data files they describe
+export interface ModifiedRecord {
+  id: string;
+  // The record's IATA code after the change
+  iata_code: string | null;
+  // Keyed by the name of each field which changed
+  fields: Record<string, FieldChange>;
+}
+
+export interface DatasetChanges {
+  added: Keyable[];
+  removed: Keyable[];
+  modified: ModifiedRecord[];
+}
+
+export interface ChangelogEntry {
+  // Identifies the data after the change
+  version: string;
+  // Identifies the data before the change
+  previous_version: string | null;
+  // When the change was recorded, as an ISO 8601 date and time
+  date: string;
+  // Only includes datasets which changed
+  changes: Partial<Record<ChangelogDatasetName, DatasetChanges>>;
+}
+
+// The most entries to keep in the changelog, so it doesn't grow forever
+export const MAX_CHANGELOG_ENTRIES = 365;
+
+/**
+ * Works out the version of a snapshot of the data from the contents of its
+ * files, so the same data always gets the same version.
+ */
+export const getSnapshotVersion = (
+  contents: Record<ChangelogDatasetName, string>,
+): string => {
+  const hash = createHash('sha256');
+  for (const name of CHANGELOG_DATASETS) {
+    hash.update(`${name}:`).update(contents[name]);
+  }
+  return hash.digest('hex').slice(0, 16);
+};
+
+// Compares every field of two versions of a record, including fields which were
+// added or removed
+const diffFields = (previous: Keyable, current: Keyable): Record<string, FieldChange> => {
+  const fields: Record<string, FieldChange> = {};
+  for (const field of new Set([...Object.keys(previous), ...Object.keys(current)])) {
+    if (!isDeepStrictEqual(previous[field], current[field])) {
+      fields[field] = { from: previous[field] ?? null, to: current[field] ?? null };
+    }
+  }
+  return fields;
+};
+
+/**
+ * Compares two versions of a dataset by `id`, returning the records which were
+ * added or removed and the fields which changed in the others (e.g. an airline
+ * whose IATA code was reassigned, or an airport which was renamed).
+ */
+export const diffRecords = (previous: Keyable[], current: Keyable[]): DatasetChanges => {
+  const previousById = new Map(previous.map((record) => [record.id, record]));
+  const currentIds = new Set(current.map((record) => record.id));
+
+  const modified: ModifiedRecord[] = [];
+  for (const record of current) {
+    const previousRecord = previousById.get(record.id);
+    if (previousRecord) {
+      const fields = diffFields(previousRecord, record);
+      if (Object.keys(fields).length > 0) {
+        modified.push({ id: record.id, iata_code: record.iata_code ?? null, fields });
+      }
+    }
+  }
+
+  return {
+    added: current.filter((record) => !previousById.has(record.id)),
+    removed: previous.filter((record) => !currentIds.has(record.id)),
+    modified,
+  };
+};
+
+/**
+ * Creates a changelog entry describing how the data changed between two
+ * snapshots, or returns `null` if nothing changed.
+ */
+export const createChangelogEntry = (
+  previous: ChangelogSnapshot,
+  current: ChangelogSnapshot,
+  {
+    version,
+    previousVersion,
+    date,
+  }: { version: string; previousVersion: string | null; date: Date },
+): ChangelogEntry | null => {
+  const changes: ChangelogEntry['changes'] = {};
+  for (const name of CHANGELOG_DATASETS) {
+    const datasetChanges = diffRecords(previous[name], current[name]);
+    if (
+      datasetChanges.added.length > 0 ||
+      datasetChanges.removed.length > 0 ||
+      datasetChanges.modified.length > 0
+    ) {
+      changes[name] = datasetChanges;
+    }
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return null;
+  }
+
+  return {
+    version,
+    previous_version: previousVersion,
+    date: date.toISOString(),
+    changes,
+  };
+};
+
+/**
+ * Adds an entry to the end of a changelog, dropping the oldest entries if there
+ * are more than `MAX_CHANGELOG_ENTRIES`.
+ */
+export const addChangelogEntry = (
+  changelog: ChangelogEntry[],
+  entry: ChangelogEntry,
+): ChangelogEntry[] => [...changelog, entry].slice(-MAX_CHANGELOG_ENTRIES);
+
+/**
+ * Thrown when asked for changes since a version which isn't in the changelog,
+ * either because it never existed or because it's older than the oldest entry
+ * we keep.
+ */
+export class UnknownVersionError extends Error {
+  statusCode = 404;
+}
+
+const getChangelog = memoizeUntilReload(
+  (): ChangelogEntry[] => getData().changelog as ChangelogEntry[],
+);
+
+/**
+ * Returns the version of the most recent change, or `null` if nothing has
+ * changed yet.
+ */
+export const getLatestVersion = (): string | null =>
+  getChangelog().at(-1)?.version ?? null;
+
+/**
+ * Returns the changes made after the given version, oldest first. Without a
+ * version, the whole changelog is returned.
+ */
+export const getChangesSince = (since?: string): ChangelogEntry[] => {
+  const changelog = getChangelog();
+  if (since === undefined || changelog[0]?.previous_version === since) {
+    return changelog;
+  }
+
+  const index = changelog.findIndex((entry) => entry.version === since);
+  if (index === -1) {
+    throw new UnknownVersionError(`Unknown changelog version: ${since}`);
+  }
+
+  return changelog.slice(index + 1);
+};
+
+// Converts records to the same shape as the API returns them in elsewhere
+const RECORD_CONVERTERS: Record<ChangelogDatasetName, (record: object) => object> = {
+  airports: airportDataToAirport,
+  airlines: cameliseKeys,
+  aircraft: aircraftDataToAircraft,
+};
+
+const camelise = (value: unknown): unknown =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? cameliseKeys(value)
+    : value;
+
+/**
+ * Converts a changelog entry to camel case, like the rest of the API's
+ * responses.
+ */
+export const presentChangelogEntry = ({
+  version,
+  previous_version,
+  date,
+  changes,
+}: ChangelogEntry) => ({
+  version,
+  previousVersion: previous_version,
+  date,
+  changes: Object.fromEntries(
+    Object.entries(changes).map(([name, { added, removed, modified }]) => {
+      const convertRecord = RECORD_CONVERTERS[name as ChangelogDatasetName];
+      return [
+        name,
+        {
+          added: added.map(convertRecord),
+          removed: removed.map(convertRecord),
+          modified: modified.map(({ id, iata_code, fields }) => ({
+            id,
+            iataCode: iata_code,
+            fields: cameliseKeys(
+              Object.fromEntries(
+                Object.entries(fields).map(([field, { from, to }]) => [
+                  field,
+                  { from: camelise(from), to: camelise(to) },
+                ]),
+              ),
+            ),
+          })),
+        },
+      ];
+    }),
+  ),
+});
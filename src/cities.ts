@@ -0,0 +1,57 @@
+import { Airport, City } from './types.js';
+import { getAirports } from './airports.js';
+import { memoizeUntilReload } from './data-source.js';
+
+/**
+ * Returns the cities (metropolitan areas with more than one airport, like `LON`
+ * and `NYC`) which airports belong to, sorted by name. There's no separate
+ * source for these, so they're taken from the airports' `city` objects.
+ */
+export const getCities = memoizeUntilReload((): City[] => {
+  const citiesByIataCode = new Map<string, City>();
+  for (const airport of getAirports()) {
+    if (airport.city && !citiesByIataCode.has(airport.city.iataCode)) {
+      citiesByIataCode.set(airport.city.iataCode, airport.city);
+    }
+  }
+
+  return Array.from(citiesByIataCode.values()).sort((a, b) =>
+    a.name.localeCompare(b.name, 'en'),
+  );
+});
+
+const getAirportsByCityCode = memoizeUntilReload((): Map<string, Airport[]> => {
+  const airportsByCityCode = new Map<string, Airport[]>();
+  for (const airport of getAirports()) {
+    if (airport.city) {
+      const existing = airportsByCityCode.get(airport.city.iataCode);
+      if (existing) {
+        existing.push(airport);
+      } else {
+        airportsByCityCode.set(airport.city.iataCode, [airport]);
+      }
+    }
+  }
+
+  return airportsByCityCode;
+});
+
+/**
+ * Returns the airports in a city, given its IATA city code (ignoring case), or
+ * an empty array if the code isn't a city.
+ */
+export const getCityAirports = (iataCityCode: string): Airport[] =>
+  getAirportsByCityCode().get(iataCityCode.trim().toUpperCase()) || [];
+
+/**
+ * Replaces any city codes in a list of codes with the codes of the airports in
+ * that city (e.g. `LON` becomes `LGW`, `LHR` and so on). Other codes are left
+ * as they are.
+ */
+export const expandCityCodes = (codes: string[]): string[] =>
+  codes.flatMap((code) => {
+    const cityAirports = getCityAirports(code);
+    return cityAirports.length > 0
+      ? cityAirports.map((airport) => airport.iataCode)
+      : [code];
+  });
@@ -0,0 +1,315 @@
+import { Aircraft, Airline, Airport, City, Country, Keyable } from '../types.js';
+import { AirportFilters } from '../airports.js';
+import { AirlineFilters } from '../airlines.js';
+import { AircraftFilters } from '../aircraft.js';
+import { Page, SortOrder } from '../pagination.js';
+import { FlightTimes, RouteInfo } from '../routes.js';
+import { LocalTime } from '../time.js';
+import { DecodedText } from '../decode.js';
+import {
+  ApiError,
+  QueryValue,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  createHttpTransport,
+  createOfflineTransport,
+} from './transport.js';
+
+export { ApiError };
+export { Aircraft, Airline, Airport, City, Country } from '../types.js';
+
+export interface ClientOptions {
+  // The URL the API is served from, e.g. "https://iata.example.com". Required
+  // unless `offline` is set.
+  baseUrl?: string;
+  // Whether to answer requests in this process from the data bundled with the
+  // API, rather than over the network
+  offline?: boolean;
+  // Defaults to the global `fetch`
+  fetch?: typeof fetch;
+  // How many times to retry requests which fail with a network error or a
+  // temporary error response. Defaults to 2.
+  retries?: number;
+  // How long to wait before the first retry, in milliseconds. Defaults to 250.
+  retryDelayMs?: number;
+  // How long to wait for each attempt at a request before giving up on it (and
+  // retrying), in milliseconds. Defaults to 10 seconds.
+  timeoutMs?: number;
+  // How long whole datasets fetched with `all()` are used for before checking
+  // whether they've changed, in milliseconds. Defaults to an hour.
+  cacheTtlMs?: number;
+}
+
+// Query parameters shared by all of the list endpoints
+export interface ListQuery {
+  // A full or partial IATA code
+  query?: string;
+  // Words to search for in names
+  name?: string;
+  fuzzy?: boolean;
+  // Exact IATA codes to decode, instead of searching
+  codes?: string[];
+  limit?: number;
+  cursor?: string;
+  fields?: string[];
+  sort?: SortOrder;
+}
+
+// Query parameters for the datasets which can be searched by ICAO code and have
+// historical records
+export interface RecordListQuery extends ListQuery {
+  // A full or partial ICAO code
+  icao?: string;
+  // A YYYY-MM-DD date to return the records which were valid on
+  asOf?: string;
+}
+
+export interface AirportListQuery extends RecordListQuery, AirportFilters {
+  expandCities?: boolean;
+  include?: ('country' | 'localTime')[];
+}
+
+export interface AirlineListQuery extends RecordListQuery, AirlineFilters {}
+
+export interface AircraftListQuery extends RecordListQuery, AircraftFilters {}
+
+export type ListResult<T> = Page<T> & {
+  // Only included when decoding `codes`
+  notFound?: string[];
+};
+
+export interface ResourceClient<T, Q extends ListQuery> {
+  // Searches the resource, like its list endpoint (e.g. `/airports`)
+  list: (query?: Q) => Promise<ListResult<T>>;
+  // Returns every record, from the cache if it's fresh
+  all: () => Promise<T[]>;
+  // Returns the record with an exact IATA code, or `null` if there isn't one
+  get: (iataCode: string) => Promise<T | null>;
+}
+
+export interface ResourceClientWithIds<T, Q extends ListQuery> extends ResourceClient<
+  T,
+  Q
+> {
+  // Returns the record with a Duffel ID, or `null` if there isn't one
+  getById: (id: string) => Promise<T | null>;
+}
+
+export interface NearbyQuery {
+  lat: number;
+  lng: number;
+  radiusKm?: number;
+  limit?: number;
+}
+
+export interface ConvertTimeQuery {
+  from: string;
+  to: string;
+  // A local date and time without an offset, e.g. "2026-03-29T10:30"
+  departure: string;
+  durationMinutes: number;
+}
+
+export interface DecodeRequest {
+  airports?: string[];
+  airlines?: string[];
+  aircraft?: string[];
+}
+
+export interface DecodeResult {
+  data: {
+    airports: Record<string, Airport>;
+    airlines: Record<string, Airline>;
+    aircraft: Record<string, Aircraft>;
+  };
+  notFound: { airports: string[]; airlines: string[]; aircraft: string[] };
+}
+
+export interface ResourceMeta {
+  // Matches the resource's `ETag`
+  version: string;
+  lastModified: string;
+  count: number;
+}
+
+export interface ChangesResult {
+  data: Keyable[];
+  meta: { latestVersion: string | null };
+}
+
+export interface Client {
+  airports: ResourceClientWithIds<Airport, AirportListQuery> & {
+    nearby: (query: NearbyQuery) => Promise<(Airport & { distanceKm: number })[]>;
+    localTime: (iataCode: string) => Promise<LocalTime & { iataCode: string }>;
+  };
+  airlines: ResourceClientWithIds<Airline, AirlineListQuery>;
+  aircraft: ResourceClientWithIds<Aircraft, AircraftListQuery>;
+  cities: ResourceClientWithIds<City, ListQuery> & {
+    airports: (iataCode: string) => Promise<Airport[]>;
+  };
+  countries: ResourceClient<Country, ListQuery>;
+  route: (from: string, to: string) => Promise<RouteInfo>;
+  convertTime: (query: ConvertTimeQuery) => Promise<FlightTimes>;
+  decode: (codes: DecodeRequest) => Promise<DecodeResult>;
+  decodeText: (text: string) => Promise<DecodedText>;
+  meta: () => Promise<Record<string, ResourceMeta>>;
+  changes: (since?: string) => Promise<ChangesResult>;
+  // Forgets every dataset cached by `all()`
+  clearCache: () => void;
+  // Closes the API when working offline. Does nothing otherwise.
+  close: () => Promise<void>;
+}
+
+const ONE_HOUR_IN_MILLISECONDS = 60 * 60 * 1000;
+
+const getErrorMessage = ({ statusCode, body }: TransportResponse): string =>
+  typeof body === 'object' && body !== null && 'message' in body
+    ? String(body.message)
+    : `The API responded with status ${statusCode}`;
+
+// Lists are sent as comma-separated values, as the API expects
+const toQueryValues = (query: object): Record<string, QueryValue> =>
+  Object.fromEntries(
+    Object.entries(query).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? value.join(',') : value,
+    ]),
+  );
+
+interface CachedDataset {
+  objects: unknown[];
+  etag?: string;
+  fetchedAt: number;
+}
+
+/**
+ * Creates a client for the API. By default, requests are sent over HTTP to
+ * `baseUrl`. With `offline: true`, they're answered in this process from the
+ * data bundled with the API, by the API's own routes, so results are the same
+ * either way.
+ */
+export const createClient = ({
+  baseUrl,
+  offline = false,
+  fetch,
+  retries,
+  retryDelayMs,
+  timeoutMs,
+  cacheTtlMs = ONE_HOUR_IN_MILLISECONDS,
+}: ClientOptions = {}): Client => {
+  if (!offline && !baseUrl) {
+    throw new Error('A `baseUrl` is required, unless `offline` is set');
+  }
+
+  const transport: Transport = offline
+    ? createOfflineTransport()
+    : createHttpTransport({
+        baseUrl: baseUrl as string,
+        fetch,
+        retries,
+        retryDelayMs,
+        timeoutMs,
+      });
+
+  const send = async (request: TransportRequest): Promise<TransportResponse> => {
+    const response = await transport.send(request);
+    if (response.statusCode >= 400) {
+      throw new ApiError(getErrorMessage(response), response.statusCode);
+    }
+    return response;
+  };
+
+  const getData = async <T>(path: string, query?: Record<string, QueryValue>) =>
+    ((await send({ method: 'GET', path, query })).body as { data: T }).data;
+
+  const postData = async <T>(path: string, body: unknown) =>
+    ((await send({ method: 'POST', path, body })).body as { data: T }).data;
+
+  // Returns `null`, rather than throwing, if the record doesn't exist
+  const getRecord = async <T>(path: string): Promise<T | null> => {
+    try {
+      return await getData<T>(path);
+    } catch (error) {
+      if (error instanceof ApiError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  // Whole datasets are kept until they're `cacheTtlMs` old, and then only
+  // downloaded again if their `ETag` has changed
+  const cachedDatasets = new Map<string, CachedDataset>();
+  const pendingDatasets = new Map<string, Promise<unknown[]>>();
+
+  const fetchDataset = async (resource: string): Promise<unknown[]> => {
+    const cached = cachedDatasets.get(resource);
+    const response = await send({
+      method: 'GET',
+      path: `/${resource}`,
+      headers: cached?.etag ? { 'If-None-Match': cached.etag } : undefined,
+    });
+
+    const objects =
+      response.statusCode === 304 && cached
+        ? cached.objects
+        : (response.body as { data: unknown[] }).data;
+    cachedDatasets.set(resource, { objects, etag: response.etag, fetchedAt: Date.now() });
+    return objects;
+  };
+
+  const getDataset = <T>(resource: string): Promise<T[]> => {
+    const cached = cachedDatasets.get(resource);
+    if (cached && Date.now() - cached.fetchedAt < cacheTtlMs) {
+      return Promise.resolve(cached.objects as T[]);
+    }
+
+    let pending = pendingDatasets.get(resource);
+    if (!pending) {
+      pending = fetchDataset(resource).finally(() => pendingDatasets.delete(resource));
+      pendingDatasets.set(resource, pending);
+    }
+    return pending as Promise<T[]>;
+  };
+
+  const createResourceClient = <T, Q extends ListQuery>(
+    resource: string,
+  ): ResourceClientWithIds<T, Q> => ({
+    list: async (query = {} as Q) =>
+      (await send({ method: 'GET', path: `/${resource}`, query: toQueryValues(query) }))
+        .body as ListResult<T>,
+    all: () => getDataset<T>(resource),
+    get: (iataCode) => getRecord<T>(`/${resource}/${encodeURIComponent(iataCode)}`),
+    getById: (id) => getRecord<T>(`/${resource}/by-id/${encodeURIComponent(id)}`),
+  });
+
+  const countries = createResourceClient<Country, ListQuery>('countries');
+
+  return {
+    airports: {
+      ...createResourceClient<Airport, AirportListQuery>('airports'),
+      nearby: (query) => getData('/airports/nearby', toQueryValues(query)),
+      localTime: (iataCode) => getData(`/airports/${encodeURIComponent(iataCode)}/time`),
+    },
+    airlines: createResourceClient<Airline, AirlineListQuery>('airlines'),
+    aircraft: createResourceClient<Aircraft, AircraftListQuery>('aircraft'),
+    cities: {
+      ...createResourceClient<City, ListQuery>('cities'),
+      airports: (iataCode) => getData(`/cities/${encodeURIComponent(iataCode)}/airports`),
+    },
+    // Countries don't have IDs
+    countries: { list: countries.list, all: countries.all, get: countries.get },
+    route: (from, to) => getData('/routes', { from, to }),
+    convertTime: (query) => getData('/time/convert', toQueryValues(query)),
+    decode: async (codes) =>
+      (await send({ method: 'POST', path: '/decode', body: codes })).body as DecodeResult,
+    decodeText: (text) => postData('/decode/text', { text }),
+    meta: () => getData('/meta'),
+    changes: async (since) =>
+      (await send({ method: 'GET', path: '/changes', query: { since } }))
+        .body as ChangesResult,
+    clearCache: () => cachedDatasets.clear(),
+    close: () => transport.close(),
+  };
+};
@@ -0,0 +1,193 @@
+import { FastifyInstance } from 'fastify';
+
+/**
+ * Thrown when the API responds with an error. Its message is the API's own
+ * error message, where there is one.
+ */
+export class ApiError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.statusCode = statusCode;
+  }
+}
+
+export type QueryValue = string | number | boolean | undefined;
+
+export interface TransportRequest {
+  method: 'GET' | 'POST';
+  path: string;
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface TransportResponse {
+  statusCode: number;
+  // Only the headers the client uses
+  etag?: string;
+  // The parsed JSON body, or `undefined` for an empty body (e.g. a 304)
+  body: unknown;
+}
+
+// Sends a request to the API, one way or another
+export interface Transport {
+  send: (request: TransportRequest) => Promise<TransportResponse>;
+  close: () => Promise<void>;
+}
+
+// Responses which are worth retrying, because they're likely to be temporary
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+// The longest to wait before retrying, even if the API asks for longer with a
+// `Retry-After` header
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+const buildPath = ({ path, query = {} }: TransportRequest): string => {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      searchParams.set(key, String(value));
+    }
+  }
+
+  const queryString = searchParams.toString();
+  return queryString ? `${path}?${queryString}` : path;
+};
+
+const parseBody = (text: string): unknown => (text ? JSON.parse(text) : undefined);
+
+const sleep = (milliseconds: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, milliseconds));
+
+// Waits twice as long before each retry, unless the API says how long to wait
+// with a `Retry-After` header (in seconds), up to `MAX_RETRY_DELAY_MS`
+const getRetryDelay = (
+  attempt: number,
+  retryDelayMs: number,
+  retryAfter: string | null = null,
+): number => {
+  const retryAfterSeconds = Number(retryAfter);
+  const delay =
+    retryAfter !== null && Number.isFinite(retryAfterSeconds)
+      ? retryAfterSeconds * 1000
+      : retryDelayMs * 2 ** attempt;
+  return Math.min(Math.max(delay, 0), MAX_RETRY_DELAY_MS);
+};
+
+export interface HttpTransportOptions {
+  // The URL the API is served from, e.g. "https://iata.example.com"
+  baseUrl: string;
+  // Defaults to the global `fetch`
+  fetch?: typeof fetch;
+  // How many times to retry requests which fail with a network error or a
+  // temporary error response
+  retries?: number;
+  // How long to wait before the first retry, in milliseconds
+  retryDelayMs?: number;
+  // How long to wait for each attempt before giving up on it (and retrying), in
+  // milliseconds
+  timeoutMs?: number;
+}
+
+/**
+ * Creates a transport which sends requests to the API over HTTP. Every endpoint
+ * the client uses only reads data, so all requests are safe to retry, including
+ * those which time out.
+ */
+export const createHttpTransport = ({
+  baseUrl,
+  fetch: fetchImplementation = fetch,
+  retries = 2,
+  retryDelayMs = 250,
+  timeoutMs = 10 * 1000,
+}: HttpTransportOptions): Transport => {
+  const normalisedBaseUrl = baseUrl.replace(/\/+$/, '');
+
+  const send = async (request: TransportRequest): Promise<TransportResponse> => {
+    const url = `${normalisedBaseUrl}${buildPath(request)}`;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetchImplementation(url, {
+          method: request.method,
+          headers: {
+            Accept: 'application/json',
+            ...(request.body !== undefined && { 'Content-Type': 'application/json' }),
+            ...request.headers,
+          },
+          body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      } catch (error) {
+        if (attempt >= retries) {
+          throw error;
+        }
+        await sleep(getRetryDelay(attempt, retryDelayMs));
+        continue;
+      }
+
+      if (RETRYABLE_STATUS_CODES.includes(response.status) && attempt < retries) {
+        await sleep(
+          getRetryDelay(attempt, retryDelayMs, response.headers.get('Retry-After')),
+        );
+        continue;
+      }
+
+      return {
+        statusCode: response.status,
+        etag: response.headers.get('ETag') ?? undefined,
+        body: parseBody(await response.text()),
+      };
+    }
+  };
+
+  return { send, close: async () => {} };
+};
+
+/**
+ * Creates a transport which answers requests in this process from the data
+ * bundled with the API, without any network access. Requests go through the
+ * API's own routes, so results are exactly the same as the API's. The API is
+ * only loaded when the first request is sent.
+ */
+export const createOfflineTransport = (): Transport => {
+  let loadingApp: Promise<FastifyInstance> | undefined;
+
+  const getApp = (): Promise<FastifyInstance> => {
+    loadingApp ??= import('../api.js').then(async ({ default: api }) => {
+      // The API logs every request, which isn't wanted in someone else's process
+      api.log.level = 'silent';
+      await api.ready();
+      return api;
+    });
+    return loadingApp;
+  };
+
+  const send = async (request: TransportRequest): Promise<TransportResponse> => {
+    const app = await getApp();
+    const response = await app.inject({
+      method: request.method,
+      url: buildPath(request),
+      headers: request.headers,
+      ...(request.body !== undefined && { payload: request.body as object }),
+    });
+
+    const etag = response.headers.etag;
+    return {
+      statusCode: response.statusCode,
+      etag: typeof etag === 'string' ? etag : undefined,
+      body: parseBody(response.body),
+    };
+  };
+
+  const close = async () => {
+    if (loadingApp) {
+      await (await loadingApp).close();
+    }
+  };
+
+  return { send, close };
+};
@@ -0,0 +1,79 @@
+import { createHash } from 'node:crypto';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { DatasetName, getDatasetVersions } from './data-source.js';
+
+export interface ResourceVersion {
+  // Changes whenever any of the datasets the resource is built from changes
+  version: string;
+  lastModified: Date;
+}
+
+/**
+ * Works out the version of a resource from the versions of the datasets it's
+ * built from (e.g. countries, which include a count of their airports, are
+ * built from both the countries and airports datasets).
+ */
+export const getResourceVersion = (datasetNames: DatasetName[]): ResourceVersion => {
+  const versions = getDatasetVersions();
+
+  return {
+    version: createHash('sha256')
+      .update(datasetNames.map((name) => `${name}:${versions[name].hash}`).join(','))
+      .digest('hex')
+      .slice(0, 16),
+    lastModified: new Date(
+      Math.max(...datasetNames.map((name) => versions[name].lastModified.getTime())),
+    ),
+  };
+};
+
+// Entity tags are compared weakly, since compression changes the bytes sent but
+// not what they represent
+const stripWeakPrefix = (entityTag: string): string => entityTag.replace(/^W\//, '');
+
+/**
+ * Checks whether a client already has the current version of a resource, based
+ * on its `If-None-Match` header or, if it doesn't send one, its
+ * `If-Modified-Since` header.
+ */
+export const isNotModified = (
+  headers: FastifyRequest['headers'],
+  etag: string,
+  lastModified: Date,
+): boolean => {
+  const ifNoneMatch = headers['if-none-match'];
+  if (ifNoneMatch !== undefined) {
+    const entityTags = ifNoneMatch.split(',').map((entityTag) => entityTag.trim());
+    return (
+      entityTags.includes('*') ||
+      entityTags.some((entityTag) => stripWeakPrefix(entityTag) === stripWeakPrefix(etag))
+    );
+  }
+
+  const ifModifiedSince = Date.parse(headers['if-modified-since'] ?? '');
+  if (Number.isNaN(ifModifiedSince)) {
+    return false;
+  }
+
+  // HTTP dates only go down to the second
+  return Math.floor(lastModified.getTime() / 1000) * 1000 <= ifModifiedSince;
+};
+
+/**
+ * Sets the `ETag` and `Last-Modified` headers for a resource built from the
+ * given datasets. Returns `true` if the client already has this version, in
+ * which case a 304 should be sent rather than the resource.
+ */
+export const setCacheValidators = (
+  request: FastifyRequest,
+  reply: FastifyReply,
+  datasetNames: DatasetName[],
+): boolean => {
+  const { version, lastModified } = getResourceVersion(datasetNames);
+  const etag = `W/"${version}"`;
+
+  reply.header('ETag', etag);
+  reply.header('Last-Modified', lastModified.toUTCString());
+
+  return isNotModified(request.headers, etag, lastModified);
+};
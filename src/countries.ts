@@ -0,0 +1,27 @@
+import { Country } from './types.js';
+import { getAirports } from './airports.js';
+import { getData, memoizeUntilReload } from './data-source.js';
+import { cameliseKeys } from './utils.js';
+
+/**
+ * Returns the countries which airports are in, along with how many airports
+ * each one has. Countries come from our own list in `data/countries.json`,
+ * since they aren't provided by Duffel.
+ */
+export const getCountries = memoizeUntilReload((): Country[] => {
+  const airportCounts = new Map<string, number>();
+  for (const airport of getAirports()) {
+    airportCounts.set(
+      airport.iataCountryCode,
+      (airportCounts.get(airport.iataCountryCode) || 0) + 1,
+    );
+  }
+
+  return getData().countries.map((country) => {
+    const camelisedCountry = cameliseKeys(country) as Omit<Country, 'airportCount'>;
+    return {
+      ...camelisedCountry,
+      airportCount: airportCounts.get(camelisedCountry.iataCode) || 0,
+    };
+  });
+});
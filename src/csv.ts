@@ -0,0 +1,89 @@
+/**
+ * Thrown when CSV can't be parsed, e.g. because a quoted field is never closed
+ * or a row has the wrong number of fields.
+ */
+export class CsvParseError extends Error {}
+
+// Splits CSV text into rows of fields, following RFC 4180. Quoted fields can
+// contain commas, line breaks and quotes (written as `""`).
+const parseRows = (text: string): { line: number; fields: string[] }[] => {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    // Blank lines are skipped, rather than treated as a row with one empty field
+    if (fields.length > 1 || fields[0] !== '') {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+    rowLine = line;
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const character = text[index];
+
+    if (quoted) {
+      if (character === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (character === '"') {
+        quoted = false;
+      } else {
+        if (character === '\n') {
+          line++;
+        }
+        field += character;
+      }
+    } else if (character === '"' && field === '') {
+      quoted = true;
+    } else if (character === ',') {
+      fields.push(field);
+      field = '';
+    } else if (character === '\n' || character === '\r') {
+      if (character === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      line++;
+      endRow();
+    } else {
+      field += character;
+    }
+  }
+
+  if (quoted) {
+    throw new CsvParseError(`Line ${rowLine}: quoted field is never closed`);
+  }
+  endRow();
+
+  return rows;
+};
+
+/**
+ * Parses CSV text into records keyed by the column names in its header row.
+ * Every value is returned as a string, with empty fields as empty strings.
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+  // Spreadsheet apps often start UTF-8 files with a byte order mark
+  const [header, ...rows] = parseRows(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.fields.map((column) => column.trim());
+
+  return rows.map(({ line, fields }) => {
+    if (fields.length !== columns.length) {
+      throw new CsvParseError(
+        `Line ${line}: expected ${columns.length} fields but found ${fields.length}`,
+      );
+    }
+
+    return Object.fromEntries(columns.map((column, index) => [column, fields[index]]));
+  });
+};
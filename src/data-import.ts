@@ -0,0 +1,502 @@
+import { Keyable } from './types.js';
+import { parseCsv } from './csv.js';
+
+export type ImportDatasetName = 'airports' | 'airlines' | 'aircraft';
+
+// `json` and `csv` files have the same fields as our data files (which are the
+// same as the Duffel API's), while `ourairports` is OurAirports' `airports.csv`
+export type ImportFormat = 'json' | 'csv' | 'ourairports';
+
+/**
+ * Thrown when a whole file can't be imported, e.g. because it isn't valid JSON
+ * or is in a format which can't be used for the dataset.
+ */
+export class ImportError extends Error {}
+
+export interface ImportIssue {
+  // The position of the record in the file, starting from 1. For CSV files,
+  // this is the row number, not counting the header row.
+  record: number;
+  message: string;
+  // Whether the whole record was left out. Otherwise, only an invalid value in
+  // an optional field was, and the field was set to `null`.
+  skipped: boolean;
+}
+
+export interface ImportResult {
+  // The valid records, normalised and sorted by IATA code
+  records: Keyable[];
+  // Malformed and duplicate records, and invalid values in optional fields
+  issues: ImportIssue[];
+}
+
+export interface ImportOptions {
+  format: ImportFormat;
+  // The records currently in the data file, used to fill in fields which the
+  // file doesn't have (e.g. time zones, which OurAirports doesn't provide)
+  existingRecords?: Keyable[];
+  // A mapping of IATA codes to ICAO codes, used for airlines and aircraft
+  // without an ICAO code, as when generating the data from the Duffel API
+  icaoCodes?: Record<string, string>;
+}
+
+interface FieldRule {
+  // What the value must be, for describing problems
+  description: string;
+  isValid: (value: unknown) => boolean;
+  nullable?: boolean;
+  // Whether the field can be left out, rather than being set to `null`, since
+  // most records don't have it
+  optional?: boolean;
+}
+
+const stringMatching = (pattern: RegExp, description: string): FieldRule => ({
+  description,
+  isValid: (value) => typeof value === 'string' && pattern.test(value),
+});
+
+const numberBetween = (min: number, max: number): FieldRule => ({
+  description: `a number between ${min} and ${max}`,
+  isValid: (value) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max,
+});
+
+const nullable = (rule: FieldRule): FieldRule => ({ ...rule, nullable: true });
+
+const optional = (rule: FieldRule): FieldRule => ({
+  ...rule,
+  nullable: true,
+  optional: true,
+});
+
+const isTimeZone = (value: unknown): boolean => {
+  if (typeof value !== 'string') {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Checks the date exists, as well as its format, so `2025-02-30` isn't valid
+const isDate = (value: unknown): boolean =>
+  typeof value === 'string' &&
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !Number.isNaN(Date.parse(value)) &&
+  new Date(value).toISOString().startsWith(value);
+
+const NON_EMPTY_STRING = stringMatching(/\S/, 'a non-empty string');
+const URL_STRING: FieldRule = {
+  description: 'a URL',
+  isValid: (value) => typeof value === 'string' && URL.canParse(value),
+};
+const TIME_ZONE: FieldRule = {
+  description: 'an IANA time zone name',
+  isValid: isTimeZone,
+};
+const COUNTRY_CODE = stringMatching(/^[A-Z]{2}$/, 'a two letter country code');
+const AIRPORT_CODE = stringMatching(/^[A-Z]{3}$/, 'a three letter IATA code');
+const DATE: FieldRule = { description: 'a date in YYYY-MM-DD format', isValid: isDate };
+const CITY: FieldRule = {
+  description: 'a city with a string `id`, `name`, `iata_code` and `iata_country_code`',
+  isValid: (value) =>
+    typeof value === 'object' &&
+    value !== null &&
+    ['id', 'name', 'iata_code', 'iata_country_code'].every(
+      (field) => typeof (value as Keyable)[field] === 'string',
+    ),
+};
+
+// When a record was valid from and to, inclusive, for records which haven't
+// always been valid (e.g. airlines whose IATA code has been reassigned)
+const VALIDITY_RULES: Record<string, FieldRule> = {
+  valid_from: optional(DATE),
+  valid_to: optional(DATE),
+};
+
+// The fields of each dataset, matching the `Airport`, `Airline` and `Aircraft`
+// types but with snake case keys as in the data files. Records are written
+// with their fields in this order.
+const FIELD_RULES: Record<ImportDatasetName, Record<string, FieldRule>> = {
+  airports: {
+    id: NON_EMPTY_STRING,
+    iata_code: AIRPORT_CODE,
+    icao_code: nullable(stringMatching(/^[A-Z0-9]{4}$/, 'a four character ICAO code')),
+    name: NON_EMPTY_STRING,
+    city_name: NON_EMPTY_STRING,
+    iata_city_code: AIRPORT_CODE,
+    iata_country_code: COUNTRY_CODE,
+    latitude: numberBetween(-90, 90),
+    longitude: numberBetween(-180, 180),
+    time_zone: TIME_ZONE,
+    city: nullable(CITY),
+    ...VALIDITY_RULES,
+  },
+  airlines: {
+    id: NON_EMPTY_STRING,
+    // Airlines without IATA codes are kept, but aren't served by the API
+    iata_code: nullable(stringMatching(/^[A-Z0-9]{2}$/, 'a two character IATA code')),
+    icao_code: nullable(stringMatching(/^[A-Z]{3}$/, 'a three letter ICAO code')),
+    name: NON_EMPTY_STRING,
+    logo_symbol_url: nullable(URL_STRING),
+    logo_lockup_url: nullable(URL_STRING),
+    conditions_of_carriage_url: nullable(URL_STRING),
+    ...VALIDITY_RULES,
+  },
+  aircraft: {
+    id: NON_EMPTY_STRING,
+    iata_code: stringMatching(/^[A-Z0-9]{3}$/, 'a three character IATA code'),
+    // Most ICAO type designators have four characters, but some have fewer
+    icao_code: nullable(
+      stringMatching(/^[A-Z][A-Z0-9]{1,3}$/, 'an ICAO type designator'),
+    ),
+    name: NON_EMPTY_STRING,
+    ...VALIDITY_RULES,
+  },
+};
+
+// Fields which are numbers in the data files, but strings in CSV files
+const NUMERIC_FIELDS = ['latitude', 'longitude'];
+
+// In Duffel-format CSV files, an airport's city is given in `city.*` columns
+const CITY_COLUMN_PREFIX = 'city.';
+
+/**
+ * Works out the format of a file from its name and, for CSV files, its header
+ * row. OurAirports' CSV files can be told apart by their `latitude_deg` column.
+ */
+export const detectImportFormat = (fileName: string, contents: string): ImportFormat => {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    return 'json';
+  }
+
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    const header = contents.slice(0, contents.search(/\r?\n|$/));
+    return header.includes('latitude_deg') ? 'ourairports' : 'csv';
+  }
+
+  throw new ImportError(`Unable to tell the format of ${fileName} from its extension`);
+};
+
+// JSON files can either be a list of records, or a response from the Duffel
+// API, where they're in `data`
+const parseJsonRecords = (contents: string): Keyable[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch (error) {
+    throw new ImportError(`The file is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const records = Array.isArray(parsed) ? parsed : (parsed as Keyable)?.data;
+  if (!Array.isArray(records)) {
+    throw new ImportError(
+      'The file must contain an array, or an object with a `data` array',
+    );
+  }
+
+  return records;
+};
+
+// CSV values are all strings, so empty values are treated as missing, and
+// numbers and cities are converted to the same types as in the data files
+const csvRowToRecord = (row: Record<string, string>): Keyable => {
+  const record: Keyable = {};
+  const city: Keyable = {};
+
+  for (const [column, value] of Object.entries(row)) {
+    const trimmedValue = value.trim();
+    if (trimmedValue === '') {
+      continue;
+    }
+
+    if (column.startsWith(CITY_COLUMN_PREFIX)) {
+      city[column.slice(CITY_COLUMN_PREFIX.length)] = trimmedValue;
+    } else if (NUMERIC_FIELDS.includes(column)) {
+      record[column] = Number(trimmedValue);
+    } else {
+      record[column] = trimmedValue;
+    }
+  }
+
+  if (Object.keys(city).length > 0) {
+    record.city = city;
+  }
+
+  return record;
+};
+
+// The columns we use from OurAirports' `airports.csv`. ICAO codes are in
+// `icao_code` in newer files, and `gps_code` in older ones.
+const OURAIRPORTS_COLUMNS = [
+  'type',
+  'name',
+  'latitude_deg',
+  'longitude_deg',
+  'iso_country',
+  'municipality',
+  'iata_code',
+];
+
+// OurAirports lists every airfield and heliport, most of which don't have IATA
+// codes, along with airports which have closed
+const isOurAirportsAirportWithIataCode = (row: Record<string, string>): boolean =>
+  row.iata_code.trim() !== '' && row.type !== 'closed';
+
+// OurAirports doesn't have IDs, city codes or time zones, so these come from
+// the existing airport with the same IATA code. Airports we don't know about
+// yet get a Duffel-style ID and are their own city, but are reported as
+// invalid because they have no time zone.
+const ourAirportsRowToRecord = (
+  row: Record<string, string>,
+  existingAirports: Map<string, Keyable>,
+): Keyable => {
+  const iataCode = row.iata_code.trim();
+  const countryCode = row.iso_country.trim();
+  const existingAirport = existingAirports.get(iataCode);
+  // GPS codes are usually ICAO codes, but some are local codes instead
+  const icaoCode =
+    row.icao_code !== undefined
+      ? row.icao_code.trim()
+      : row.gps_code?.trim().match(/^[A-Z0-9]{4}$/)?.[0];
+
+  return {
+    id: existingAirport?.id ?? `arp_${iataCode}_${countryCode}`.toLowerCase(),
+    iata_code: iataCode,
+    icao_code: icaoCode || null,
+    name: row.name.trim(),
+    city_name: row.municipality.trim() || existingAirport?.city_name,
+    iata_city_code: existingAirport?.iata_city_code ?? iataCode,
+    iata_country_code: countryCode,
+    latitude: Number(row.latitude_deg),
+    longitude: Number(row.longitude_deg),
+    time_zone: existingAirport?.time_zone,
+    city: existingAirport?.city ?? null,
+  };
+};
+
+interface ParsedRecord {
+  // The position of the record in the file, starting from 1
+  position: number;
+  record: unknown;
+}
+
+const withPositions = (records: unknown[]): ParsedRecord[] =>
+  records.map((record, index) => ({ position: index + 1, record }));
+
+const parseRecords = (
+  name: ImportDatasetName,
+  contents: string,
+  { format, existingRecords = [] }: ImportOptions,
+): ParsedRecord[] => {
+  switch (format) {
+    case 'json':
+      return withPositions(parseJsonRecords(contents));
+    case 'csv':
+      return withPositions(parseCsv(contents).map(csvRowToRecord));
+    case 'ourairports': {
+      if (name !== 'airports') {
+        throw new ImportError('OurAirports files can only be imported as airports');
+      }
+
+      const rows = parseCsv(contents);
+      const missingColumns = OURAIRPORTS_COLUMNS.filter(
+        (column) => rows.length > 0 && !(column in rows[0]),
+      );
+      if (missingColumns.length > 0) {
+        throw new ImportError(
+          `The file is missing these OurAirports columns: ${missingColumns.join(', ')}`,
+        );
+      }
+
+      const existingAirports = new Map(
+        existingRecords.map((airport) => [airport.iata_code, airport]),
+      );
+      // Rows which are skipped still count towards the positions of later rows,
+      // so problems can be found in the file
+      return withPositions(rows).flatMap(({ position, record: row }) =>
+        isOurAirportsAirportWithIataCode(row as Record<string, string>)
+          ? [
+              {
+                position,
+                record: ourAirportsRowToRecord(
+                  row as Record<string, string>,
+                  existingAirports,
+                ),
+              },
+            ]
+          : [],
+      );
+    }
+  }
+};
+
+// Picks out the dataset's fields in a consistent order, filling in missing
+// optional fields with `null` and ICAO codes from the mapping
+const normaliseRecord = (
+  record: Keyable,
+  rules: Record<string, FieldRule>,
+  icaoCodes: Record<string, string>,
+): Keyable => {
+  const normalisedRecord: Keyable = {};
+  for (const [field, rule] of Object.entries(rules)) {
+    const value =
+      typeof record[field] === 'string' ? record[field].trim() : record[field];
+    if (value !== undefined || !rule.optional) {
+      normalisedRecord[field] = value === undefined && rule.nullable ? null : value;
+    }
+  }
+
+  if ('icao_code' in rules && normalisedRecord.icao_code === null) {
+    normalisedRecord.icao_code = icaoCodes[normalisedRecord.iata_code] ?? null;
+  }
+
+  return normalisedRecord;
+};
+
+/**
+ * Normalises a record, with snake case keys as in the data files, in the same
+ * way as imported records, so it has every field of its dataset's type.
+ */
+export const normaliseDatasetRecord = (
+  name: ImportDatasetName,
+  record: Keyable,
+): Keyable => normaliseRecord(record, FIELD_RULES[name], {});
+
+const describeValue = (value: unknown): string =>
+  value === undefined ? 'missing' : JSON.stringify(value);
+
+const describeInvalidField = (field: string, rule: FieldRule, value: unknown): string => {
+  const description = rule.nullable ? `null or ${rule.description}` : rule.description;
+  return `\`${field}\` must be ${description}, but is ${describeValue(value)}`;
+};
+
+// Returns the fields of a record which don't follow their rules
+const findInvalidFields = (
+  record: Keyable,
+  rules: Record<string, FieldRule>,
+): [string, FieldRule][] =>
+  Object.entries(rules).filter(
+    ([field, rule]) =>
+      !(rule.nullable && record[field] === null) &&
+      !(rule.optional && record[field] === undefined) &&
+      !rule.isValid(record[field]),
+  );
+
+/**
+ * Checks a record, with snake case keys as in the data files, against its
+ * dataset's type, returning a description of each problem. Optional fields can
+ * be left out, and with `partial`, so can any other field.
+ */
+export const findRecordProblems = (
+  name: ImportDatasetName,
+  record: Keyable,
+  { partial = false }: { partial?: boolean } = {},
+): string[] => {
+  const rules = FIELD_RULES[name];
+  const rulesToCheck = Object.fromEntries(
+    Object.entries(rules).filter(
+      ([field, rule]) => field in record || !(partial || rule.nullable),
+    ),
+  );
+
+  const problems = [
+    ...Object.keys(record)
+      .filter((field) => !(field in rules))
+      .map((field) => `\`${field}\` isn't a field of ${name}`),
+    ...findInvalidFields(record, rulesToCheck).map(([field, rule]) =>
+      describeInvalidField(field, rule, record[field]),
+    ),
+  ];
+
+  if (problems.length === 0 && record.valid_from && record.valid_to < record.valid_from) {
+    problems.push('`valid_to` must not be before `valid_from`');
+  }
+
+  return problems;
+};
+
+const compareRecords = (a: Keyable, b: Keyable): number => {
+  if (a.iata_code !== b.iata_code) {
+    // Records without IATA codes go at the end
+    if (a.iata_code === null || b.iata_code === null) {
+      return a.iata_code === null ? 1 : -1;
+    }
+    return a.iata_code < b.iata_code ? -1 : 1;
+  }
+
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+/**
+ * Imports a dataset from a local file, rather than from the Duffel API.
+ *
+ * Every record is normalised and checked against the dataset's type. Records
+ * with an invalid required field, or with the same ID or IATA code as an
+ * earlier record, are left out. Invalid values in optional fields (e.g. a
+ * logo URL) are replaced with `null`. Either way, they're reported in
+ * `issues`.
+ */
+export const importDataset = (
+  name: ImportDatasetName,
+  contents: string,
+  options: ImportOptions,
+): ImportResult => {
+  const rules = FIELD_RULES[name];
+  const records: Keyable[] = [];
+  const issues: ImportIssue[] = [];
+  // The position of the first record with each ID and IATA code
+  const ids = new Map<string, number>();
+  const iataCodes = new Map<string, number>();
+
+  for (const { position, record: rawRecord } of parseRecords(name, contents, options)) {
+    if (typeof rawRecord !== 'object' || rawRecord === null) {
+      issues.push({
+        record: position,
+        message: 'The record is not an object',
+        skipped: true,
+      });
+      continue;
+    }
+
+    const record = normaliseRecord(rawRecord as Keyable, rules, options.icaoCodes ?? {});
+    const invalidFields = findInvalidFields(record, rules);
+    const skipped = invalidFields.some(([, rule]) => !rule.nullable);
+    for (const [field, rule] of invalidFields) {
+      issues.push({
+        record: position,
+        message: describeInvalidField(field, rule, record[field]),
+        skipped,
+      });
+      record[field] = null;
+    }
+    if (skipped) {
+      continue;
+    }
+
+    const duplicateOf = ids.get(record.id) ?? iataCodes.get(record.iata_code);
+    if (duplicateOf !== undefined) {
+      const field = ids.has(record.id)
+        ? `ID ${record.id}`
+        : `IATA code ${record.iata_code}`;
+      issues.push({
+        record: position,
+        message: `The ${field} is already used by record ${duplicateOf}`,
+        skipped: true,
+      });
+      continue;
+    }
+
+    ids.set(record.id, position);
+    if (record.iata_code !== null) {
+      iataCodes.set(record.iata_code, position);
+    }
+    records.push(record);
+  }
+
+  return { records: records.sort(compareRecords), issues };
+};
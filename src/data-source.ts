@@ -0,0 +1,488 @@
+import { createHash } from 'node:crypto';
+import { readFileSync, statSync, watch } from 'node:fs';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Keyable } from './types.js';
+import { findRecordProblems } from './data-import.js';
+
+// The `data` directory checked into the repo, used unless `DATA_DIR` is set
+const DEFAULT_DATA_DIR = fileURLToPath(new URL('../data/', import.meta.url));
+
+// How long to wait after a file in the data directory changes before reloading,
+// so that a batch of files being written is picked up in one go
+const WATCH_DEBOUNCE_MS = 1000;
+
+type FieldType = 'string' | 'number' | 'object';
+
+interface DataFile {
+  fileName: string;
+  // Fields which every record must have, with their types
+  requiredFields: Record<string, FieldType>;
+  // Whether the file can be an empty array
+  allowEmpty?: boolean;
+  // Whether the file can be missing, in which case it's treated as empty
+  optional?: boolean;
+  // An environment variable which can be set to load the file from somewhere
+  // other than the data directory
+  pathEnvVar?: string;
+}
+
+// The raw records from each data file, with snake case keys as in the files
+export interface RawData {
+  airports: Keyable[];
+  airlines: Keyable[];
+  aircraft: Keyable[];
+  countries: Keyable[];
+  changelog: Keyable[];
+  overlays: Keyable[];
+  historical: Keyable[];
+}
+
+export type DatasetName = keyof RawData;
+
+// Airlines don't all have IATA codes, so those without are filtered out later
+// rather than rejected here
+const DATA_FILES: Record<DatasetName, DataFile> = {
+  airports: {
+    fileName: 'airports.json',
+    requiredFields: {
+      id: 'string',
+      iata_code: 'string',
+      name: 'string',
+      time_zone: 'string',
+      latitude: 'number',
+      longitude: 'number',
+      iata_country_code: 'string',
+      iata_city_code: 'string',
+      city_name: 'string',
+    },
+  },
+  airlines: {
+    fileName: 'airlines.json',
+    requiredFields: { id: 'string', name: 'string' },
+  },
+  aircraft: {
+    fileName: 'aircraft.json',
+    requiredFields: { id: 'string', iata_code: 'string', name: 'string' },
+  },
+  countries: {
+    fileName: 'countries.json',
+    requiredFields: {
+      iata_code: 'string',
+      name: 'string',
+      continent: 'string',
+      currency_code: 'string',
+    },
+  },
+  // The changelog starts off empty, until the data is first refreshed, and data
+  // directories from elsewhere may not have one at all
+  changelog: {
+    fileName: 'changelog.json',
+    requiredFields: { version: 'string', date: 'string', changes: 'object' },
+    allowEmpty: true,
+    optional: true,
+  },
+  // Our own changes to the data, which are kept when the data is refreshed
+  overlays: {
+    fileName: 'overlays.json',
+    requiredFields: { dataset: 'string', iata_code: 'string' },
+    allowEmpty: true,
+    optional: true,
+    pathEnvVar: 'OVERLAYS_FILE',
+  },
+  // Records which used to be valid, e.g. the previous holders of reassigned
+  // IATA codes
+  historical: {
+    fileName: 'historical.json',
+    requiredFields: { dataset: 'string', iata_code: 'string', valid_to: 'string' },
+    allowEmpty: true,
+    optional: true,
+  },
+};
+
+// The datasets of records with IATA codes, which overlays can add records to
+// (or change or hide records in), and which can have historical records
+export const RECORD_DATASETS = ['airports', 'airlines', 'aircraft'] as const;
+
+export type RecordDatasetName = (typeof RECORD_DATASETS)[number];
+
+const DATASET_NAMES = Object.keys(DATA_FILES) as DatasetName[];
+
+/**
+ * Thrown when a data file is missing or invalid. The data which was already
+ * loaded is kept, so the API carries on serving it.
+ */
+export class DataValidationError extends Error {
+  statusCode = 422;
+}
+
+export const getDataDir = (): string => process.env.DATA_DIR || DEFAULT_DATA_DIR;
+
+export const getDataFilePath = (name: DatasetName, dataDir = getDataDir()): string => {
+  const { fileName, pathEnvVar } = DATA_FILES[name];
+  return (pathEnvVar && process.env[pathEnvVar]) || path.join(dataDir, fileName);
+};
+
+/**
+ * Parses and validates the contents of a data file, which must be a non-empty
+ * array of records with all of the file's required fields.
+ */
+const parseDataFile = (
+  { fileName, requiredFields, allowEmpty }: DataFile,
+  contents: string,
+): Keyable[] => {
+  let records: unknown;
+  try {
+    records = JSON.parse(contents);
+  } catch (error) {
+    throw new DataValidationError(
+      `${fileName} is not valid JSON: ${(error as Error).message}`,
+    );
+  }
+
+  if (!Array.isArray(records)) {
+    throw new DataValidationError(`${fileName} must contain an array`);
+  }
+
+  // An empty list is almost certainly a failed download rather than real data
+  if (records.length === 0 && !allowEmpty) {
+    throw new DataValidationError(`${fileName} must contain a non-empty array`);
+  }
+
+  records.forEach((record: unknown, index: number) => {
+    if (typeof record !== 'object' || record === null) {
+      throw new DataValidationError(`${fileName}: record ${index} is not an object`);
+    }
+
+    for (const [field, type] of Object.entries(requiredFields)) {
+      if (typeof (record as Keyable)[field] !== type) {
+        throw new DataValidationError(
+          `${fileName}: record ${index} must have a ${type} \`${field}\``,
+        );
+      }
+    }
+  });
+
+  return records as Keyable[];
+};
+
+interface DataFileContents {
+  contents: string;
+  // When the file was last modified, according to the file system
+  modifiedAt: Date;
+}
+
+// Optional files which don't exist are read as an empty array
+const MISSING_FILE_CONTENTS: DataFileContents = {
+  contents: '[]',
+  modifiedAt: new Date(0),
+};
+
+const handleReadError = (dataFile: DataFile, error: NodeJS.ErrnoException) => {
+  if (dataFile.optional && error.code === 'ENOENT') {
+    return MISSING_FILE_CONTENTS;
+  }
+
+  throw new DataValidationError(`Unable to read ${dataFile.fileName}: ${error.message}`);
+};
+
+const readDataFileSync = (dataDir: string, name: DatasetName): DataFileContents => {
+  const filePath = getDataFilePath(name, dataDir);
+  try {
+    return {
+      contents: readFileSync(filePath, 'utf8'),
+      modifiedAt: statSync(filePath).mtime,
+    };
+  } catch (error) {
+    return handleReadError(DATA_FILES[name], error as NodeJS.ErrnoException);
+  }
+};
+
+const readDataFile = async (
+  dataDir: string,
+  name: DatasetName,
+): Promise<DataFileContents> => {
+  const filePath = getDataFilePath(name, dataDir);
+  try {
+    const [contents, stats] = await Promise.all([
+      readFile(filePath, 'utf8'),
+      stat(filePath),
+    ]);
+    return { contents, modifiedAt: stats.mtime };
+  } catch (error) {
+    return handleReadError(DATA_FILES[name], error as NodeJS.ErrnoException);
+  }
+};
+
+export interface DatasetVersion {
+  // A hash of the data file's contents, which changes whenever the data does
+  hash: string;
+  // When the data last changed
+  lastModified: Date;
+}
+
+export type DatasetVersions = Record<DatasetName, DatasetVersion>;
+
+let data: RawData | undefined;
+let versions: DatasetVersions | undefined;
+// Incremented each time the data is reloaded, so memoized values built from the
+// old data can tell that they're out of date
+let dataVersion = 0;
+
+// If a file's contents haven't changed since it was last loaded, its previous
+// version is kept even if the file was rewritten, so clients don't download
+// the same data again. A file which has changed but looks older than before
+// (e.g. because it was deleted) is treated as changing now.
+const getDatasetVersion = (
+  { contents, modifiedAt }: DataFileContents,
+  previousVersion: DatasetVersion | undefined,
+): DatasetVersion => {
+  const hash = createHash('sha256').update(contents).digest('hex').slice(0, 16);
+  if (previousVersion?.hash === hash) {
+    return previousVersion;
+  }
+
+  return {
+    hash,
+    lastModified:
+      previousVersion && modifiedAt <= previousVersion.lastModified
+        ? new Date()
+        : modifiedAt,
+  };
+};
+
+const validateRecordDataset = (fileName: string, dataset: string, index: number) => {
+  if (!(RECORD_DATASETS as readonly string[]).includes(dataset)) {
+    throw new DataValidationError(
+      `${fileName}: record ${index} must have a \`dataset\` of ${RECORD_DATASETS.join(', ')}`,
+    );
+  }
+};
+
+/**
+ * Checks that every overlay is for a dataset which can be overlaid, that there's
+ * only one for each record, and that its fields are valid. Overlays which add a
+ * record, rather than changing or hiding an existing one, must have all of the
+ * record's fields.
+ */
+const validateOverlays = (data: RawData) => {
+  const { fileName } = DATA_FILES.overlays;
+  const overlaidRecords = new Set<string>();
+
+  data.overlays.forEach(({ dataset, hidden, ...fields }, index) => {
+    validateRecordDataset(fileName, dataset, index);
+
+    if (hidden !== undefined && typeof hidden !== 'boolean') {
+      throw new DataValidationError(
+        `${fileName}: record ${index} must have a boolean \`hidden\`, if it has one`,
+      );
+    }
+
+    const key = `${dataset}:${fields.iata_code}`;
+    if (overlaidRecords.has(key)) {
+      throw new DataValidationError(
+        `${fileName}: record ${index} is the second overlay for ${dataset} ${fields.iata_code}`,
+      );
+    }
+    overlaidRecords.add(key);
+
+    const addsRecord =
+      !hidden &&
+      !data[dataset as RecordDatasetName].some(
+        (record) => record.iata_code === fields.iata_code,
+      );
+    const [problem] = findRecordProblems(dataset, fields, { partial: !addsRecord });
+    if (problem) {
+      throw new DataValidationError(`${fileName}: record ${index}: ${problem}`);
+    }
+  });
+};
+
+/**
+ * Checks that every historical record is for a dataset with IATA codes and has
+ * all of the record's fields, and that records with the same IATA code weren't
+ * valid at the same time as each other. Their IDs mustn't be used by current
+ * records either, so each can be looked up by ID.
+ */
+const validateHistoricalRecords = (data: RawData) => {
+  const { fileName } = DATA_FILES.historical;
+  const validityPeriods = new Map<string, { from: string; to: string }[]>();
+
+  data.historical.forEach(({ dataset, ...fields }, index) => {
+    validateRecordDataset(fileName, dataset, index);
+
+    const [problem] = findRecordProblems(dataset, fields);
+    if (problem) {
+      throw new DataValidationError(`${fileName}: record ${index}: ${problem}`);
+    }
+
+    if (data[dataset as RecordDatasetName].some((record) => record.id === fields.id)) {
+      throw new DataValidationError(
+        `${fileName}: record ${index} has the same ID as a current record, ${fields.id}`,
+      );
+    }
+
+    // Records without a start date were valid from the beginning of time
+    const period = { from: fields.valid_from ?? '', to: fields.valid_to };
+    const key = `${dataset}:${fields.iata_code}`;
+    const periods = validityPeriods.get(key) ?? [];
+    if (periods.some(({ from, to }) => period.from <= to && from <= period.to)) {
+      throw new DataValidationError(
+        `${fileName}: record ${index} overlaps another historical record for ${dataset} ${fields.iata_code}`,
+      );
+    }
+    validityPeriods.set(key, [...periods, period]);
+  });
+};
+
+// Parses and validates every data file, in the order of `DATASET_NAMES`, before
+// any of them are used, so a bad file can't leave the datasets out of step with
+// each other
+const parseDataFiles = (
+  files: DataFileContents[],
+): { data: RawData; versions: DatasetVersions } => {
+  const parsedData = {} as RawData;
+  const parsedVersions = {} as DatasetVersions;
+  DATASET_NAMES.forEach((name, index) => {
+    parsedData[name] = parseDataFile(DATA_FILES[name], files[index].contents);
+    parsedVersions[name] = getDatasetVersion(files[index], versions?.[name]);
+  });
+  validateOverlays(parsedData);
+  validateHistoricalRecords(parsedData);
+
+  return { data: parsedData, versions: parsedVersions };
+};
+
+/**
+ * Returns the raw records from each data file. These are read synchronously
+ * from the data directory on first use, like the JSON imports they replace.
+ */
+export const getData = (): RawData => {
+  if (!data) {
+    const dataDir = getDataDir();
+    ({ data, versions } = parseDataFiles(
+      DATASET_NAMES.map((name) => readDataFileSync(dataDir, name)),
+    ));
+  }
+
+  return data;
+};
+
+/**
+ * Returns the version of each data file currently in use, loading the data if
+ * it hasn't been already.
+ */
+export const getDatasetVersions = (): DatasetVersions => {
+  getData();
+  return versions as DatasetVersions;
+};
+
+/**
+ * Wraps a function which builds something from the data (e.g. the list of
+ * airports), calling it on first use and again the first time it's used after
+ * each reload.
+ */
+export const memoizeUntilReload = <T>(build: () => T): (() => T) => {
+  let memoized: { version: number; value: T } | undefined;
+
+  return (): T => {
+    if (!memoized || memoized.version !== dataVersion) {
+      // The version is read before building, in case building is what loads the
+      // data for the first time
+      const version = dataVersion;
+      memoized = { version, value: build() };
+    }
+    return memoized.value;
+  };
+};
+
+export interface DataReloadResult {
+  version: number;
+  loadedAt: Date;
+  dataDir: string;
+  // The number of records loaded from each data file
+  counts: Record<DatasetName, number>;
+}
+
+const reload = async (): Promise<DataReloadResult> => {
+  const dataDir = getDataDir();
+  const files = await Promise.all(
+    DATASET_NAMES.map((name) => readDataFile(dataDir, name)),
+  );
+
+  const reloaded = parseDataFiles(files);
+  data = reloaded.data;
+  versions = reloaded.versions;
+  dataVersion++;
+
+  return {
+    version: dataVersion,
+    loadedAt: new Date(),
+    dataDir,
+    counts: Object.fromEntries(
+      DATASET_NAMES.map((name) => [name, reloaded.data[name].length]),
+    ) as Record<DatasetName, number>,
+  };
+};
+
+let pendingReload: Promise<unknown> = Promise.resolve();
+
+/**
+ * Re-reads every data file from the data directory, validates them and swaps
+ * them in at once. Indexes built from the old data are rebuilt on next use. If
+ * any file is invalid, a `DataValidationError` is thrown and the old data is
+ * kept. Reloads happen one at a time, in the order they were requested.
+ */
+export const reloadData = (): Promise<DataReloadResult> => {
+  const result = pendingReload.then(reload);
+  pendingReload = result.catch(() => undefined);
+  return result;
+};
+
+// Groups the names of the data files by the directory they're in, since some
+// (like the overlays file) can be kept outside the data directory
+const getDataFileNamesByDir = (): Map<string, string[]> => {
+  const fileNamesByDir = new Map<string, string[]>();
+  for (const name of DATASET_NAMES) {
+    const filePath = getDataFilePath(name);
+    const dir = path.dirname(filePath);
+    fileNamesByDir.set(dir, [
+      ...(fileNamesByDir.get(dir) ?? []),
+      path.basename(filePath),
+    ]);
+  }
+  return fileNamesByDir;
+};
+
+/**
+ * Watches the data directory, and the directories of any data files kept
+ * elsewhere, reloading the data shortly after any of the data files change.
+ * Returns a watcher which can be closed to stop watching.
+ */
+export const watchDataDir = (
+  onReload: (result: DataReloadResult) => void,
+  onError: (error: Error) => void,
+): { close: () => void } => {
+  let timeout: NodeJS.Timeout | undefined;
+
+  const watchers = Array.from(getDataFileNamesByDir(), ([dir, fileNames]) =>
+    watch(dir, (_eventType, fileName) => {
+      if (fileName && !fileNames.includes(fileName)) {
+        return;
+      }
+
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        reloadData().then(onReload, onError);
+      }, WATCH_DEBOUNCE_MS);
+    }),
+  );
+
+  return {
+    close: () => {
+      clearTimeout(timeout);
+      watchers.forEach((watcher) => watcher.close());
+    },
+  };
+};
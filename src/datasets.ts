@@ -0,0 +1,121 @@
+import { getAirports, getAirportsWithHistory } from './airports.js';
+import { getAirlines, getAirlinesWithHistory } from './airlines.js';
+import { getAircraft, getAircraftNickname, getAircraftWithHistory } from './aircraft.js';
+import { getCities } from './cities.js';
+import { getCountries } from './countries.js';
+import { Aircraft, Airline, Airport, City, Country } from './types.js';
+import {
+  SearchableDataset,
+  createLookupMapGetter,
+  createNameIndexGetter,
+  createPrefixMapGetter,
+} from './search.js';
+import { createSpatialIndexGetter } from './geo.js';
+import { createDatasetAsOfGetter } from './history.js';
+
+// Prefix maps and name indexes are initialized lazily on first use. An
+// airport's own name is a stronger signal than the name of the city it serves.
+const createAirportsDataset = (
+  getAirports: () => Airport[],
+): SearchableDataset<Airport> => ({
+  getObjects: getAirports,
+  getPrefixMap: createPrefixMapGetter(getAirports),
+  getIataCodeMap: createLookupMapGetter(getAirports, (airport) =>
+    airport.iataCode.toUpperCase(),
+  ),
+  getIdMap: createLookupMapGetter(getAirports, (airport) => airport.id),
+  getNameIndex: createNameIndexGetter<Airport>(getAirports, [
+    { getValue: (airport) => airport.name, weight: 1 },
+    { getValue: (airport) => airport.cityName, weight: 0.8 },
+  ]),
+  iataCodeLength: 3,
+  icao: {
+    getPrefixMap: createPrefixMapGetter(getAirports, (airport) => airport.icaoCode),
+    codeLength: 4,
+  },
+});
+
+const createAirlinesDataset = (
+  getAirlines: () => Airline[],
+): SearchableDataset<Airline> => ({
+  getObjects: getAirlines,
+  getPrefixMap: createPrefixMapGetter(getAirlines),
+  getIataCodeMap: createLookupMapGetter(getAirlines, (airline) =>
+    airline.iataCode.toUpperCase(),
+  ),
+  getIdMap: createLookupMapGetter(getAirlines, (airline) => airline.id),
+  getNameIndex: createNameIndexGetter<Airline>(getAirlines, [
+    { getValue: (airline) => airline.name, weight: 1 },
+  ]),
+  iataCodeLength: 2,
+  icao: {
+    getPrefixMap: createPrefixMapGetter(getAirlines, (airline) => airline.icaoCode),
+    codeLength: 3,
+  },
+});
+
+const createAircraftDataset = (
+  getAircraft: () => Aircraft[],
+): SearchableDataset<Aircraft> => ({
+  getObjects: getAircraft,
+  getPrefixMap: createPrefixMapGetter(getAircraft),
+  getIataCodeMap: createLookupMapGetter(getAircraft, (aircraft) =>
+    aircraft.iataCode.toUpperCase(),
+  ),
+  getIdMap: createLookupMapGetter(getAircraft, (aircraft) => aircraft.id),
+  getNameIndex: createNameIndexGetter<Aircraft>(getAircraft, [
+    { getValue: (aircraft) => aircraft.name, weight: 1 },
+    { getValue: getAircraftNickname, weight: 0.8 },
+  ]),
+  iataCodeLength: 3,
+  icao: {
+    getPrefixMap: createPrefixMapGetter(getAircraft, (aircraft) => aircraft.icaoCode),
+    codeLength: 4,
+  },
+});
+
+export const airportsDataset = createAirportsDataset(getAirports);
+export const airlinesDataset = createAirlinesDataset(getAirlines);
+export const aircraftDataset = createAircraftDataset(getAircraft);
+
+// Datasets of the records which were valid on a date, including historical
+// records, for the `asOf` parameter
+export const getAirportsDatasetAsOf = createDatasetAsOfGetter(
+  getAirportsWithHistory,
+  createAirportsDataset,
+);
+export const getAirlinesDatasetAsOf = createDatasetAsOfGetter(
+  getAirlinesWithHistory,
+  createAirlinesDataset,
+);
+export const getAircraftDatasetAsOf = createDatasetAsOfGetter(
+  getAircraftWithHistory,
+  createAircraftDataset,
+);
+
+export const citiesDataset: SearchableDataset<City> = {
+  getObjects: getCities,
+  getPrefixMap: createPrefixMapGetter(getCities),
+  getIataCodeMap: createLookupMapGetter(getCities, (city) => city.iataCode.toUpperCase()),
+  getIdMap: createLookupMapGetter(getCities, (city) => city.id),
+  getNameIndex: createNameIndexGetter<City>(getCities, [
+    { getValue: (city) => city.name, weight: 1 },
+  ]),
+  iataCodeLength: 3,
+};
+
+// Countries don't have Duffel IDs, so they can only be looked up by code
+export const countriesDataset: SearchableDataset<Country> = {
+  getObjects: getCountries,
+  getPrefixMap: createPrefixMapGetter(getCountries),
+  getIataCodeMap: createLookupMapGetter(getCountries, (country) =>
+    country.iataCode.toUpperCase(),
+  ),
+  getNameIndex: createNameIndexGetter<Country>(getCountries, [
+    { getValue: (country) => country.name, weight: 1 },
+  ]),
+  iataCodeLength: 2,
+};
+
+// Lazily initialize the spatial index for finding nearby airports on first use
+export const getAirportsSpatialIndex = createSpatialIndexGetter(getAirports);
@@ -0,0 +1,245 @@
+import { Aircraft, Airline, Airport, ObjectWithIataCode } from './types.js';
+import { SearchableDataset, findByIataCode, searchDataset } from './search.js';
+import { aircraftDataset, airlinesDataset, airportsDataset } from './datasets.js';
+
+export interface DecodedCodes<T> {
+  // Keyed by the normalised (trimmed and uppercased) code, in the order the codes
+  // were given
+  results: Map<string, T>;
+  // Normalised codes which don't match anything, in the order they were given
+  notFound: string[];
+}
+
+/**
+ * Decodes a list of exact IATA codes in one go. Codes are trimmed and matched
+ * case-insensitively, and duplicates and blank codes are ignored.
+ */
+export const decodeCodes = <T extends ObjectWithIataCode>(
+  dataset: SearchableDataset<T>,
+  codes: string[],
+): DecodedCodes<T> => {
+  const results = new Map<string, T>();
+  const notFound: string[] = [];
+
+  for (const normalisedCode of new Set(codes.map((code) => code.trim().toUpperCase()))) {
+    if (normalisedCode === '') {
+      continue;
+    }
+
+    const object = findByIataCode(dataset, normalisedCode);
+    if (object) {
+      results.set(normalisedCode, object);
+    } else {
+      notFound.push(normalisedCode);
+    }
+  }
+
+  return { results, notFound };
+};
+
+/**
+ * Splits a comma-separated list of codes, as accepted by the `codes` query
+ * parameter (e.g. `LHR,JFK,CDG`).
+ */
+export const parseCodeList = (codes: string): string[] => codes.split(',');
+
+export type DecodedTextTokenType =
+  'flight' | 'route' | 'airport' | 'airline' | 'aircraft' | 'date' | 'time' | 'unknown';
+
+export interface DecodedTextToken {
+  // The token as it appeared in the text
+  token: string;
+  type: DecodedTextTokenType;
+  // Set for flights (e.g. "BA117")
+  flightNumber?: string;
+  // Set for flights and airlines
+  airline?: Airline;
+  // Set for airports
+  airport?: Airport;
+  // Set for routes (e.g. "LHR-JFK"), in order
+  airports?: Airport[];
+  // Set for aircraft
+  aircraft?: Aircraft;
+}
+
+export interface DecodedText {
+  text: string;
+  tokens: DecodedTextToken[];
+  // Everything recognised in the text, without duplicates, in the order it
+  // first appeared
+  airports: Airport[];
+  airlines: Airline[];
+  aircraft: Aircraft[];
+}
+
+// An airline designator (two character IATA or three letter ICAO) followed by a
+// flight number with an optional operational suffix, e.g. "BA117" or "BAW117A"
+const FLIGHT_PATTERN = /^([A-Z0-9]{2}|[A-Z]{3})(\d{1,4}[A-Z]?)$/;
+const FLIGHT_NUMBER_PATTERN = /^\d{1,4}[A-Z]?$/;
+// Dates and times as they appear in GDS segment lines, e.g. "15MAR" and "0830"
+const DATE_PATTERN = /^\d{1,2}(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)(\d{2})?$/;
+const TIME_PATTERN = /^([01]\d|2[0-3])[0-5]\d$/;
+// Punctuation which can surround a token without being part of it
+const SURROUNDING_PUNCTUATION_PATTERN = /^[^A-Z0-9]+|[^A-Z0-9]+$/g;
+
+const findAirline = (designator: string): Airline | undefined => {
+  // Two character IATA designators must contain a letter, or flight numbers and
+  // times would be mistaken for them
+  if (designator.length === 2 && /[A-Z]/.test(designator)) {
+    return findByIataCode(airlinesDataset, designator);
+  }
+
+  if (designator.length === 3) {
+    return searchDataset(airlinesDataset, { icao: designator }).find(
+      (airline) => airline.icaoCode === designator,
+    );
+  }
+
+  return undefined;
+};
+
+// ICAO aircraft type designators (e.g. "B77W"). Shorter designators like "C17"
+// are indistinguishable from IATA codes, so only four character ones are
+// recognised.
+const AIRCRAFT_ICAO_CODE_PATTERN = /^[A-Z][A-Z0-9]{3}$/;
+
+const findAircraftByIcaoCode = (icaoCode: string): Aircraft | undefined =>
+  searchDataset(aircraftDataset, { icao: icaoCode }).find(
+    (aircraft) => aircraft.icaoCode === icaoCode,
+  );
+
+// Recognises a list of airports separated by dashes or slashes (e.g.
+// "LHR-JFK-SFO"), or two airports run together as in GDS segments (e.g.
+// "LHRJFK")
+const findRouteAirports = (token: string): Airport[] | undefined => {
+  let codes: string[];
+  if (/^[A-Z]{3}([-/][A-Z]{3})+$/.test(token)) {
+    codes = token.split(/[-/]/);
+  } else if (/^[A-Z]{6}$/.test(token)) {
+    codes = [token.slice(0, 3), token.slice(3)];
+  } else {
+    return undefined;
+  }
+
+  const airports = codes.map((code) => findByIataCode(airportsDataset, code));
+  return airports.every((airport) => airport !== undefined)
+    ? (airports as Airport[])
+    : undefined;
+};
+
+const decodeToken = (token: string): DecodedTextToken => {
+  const normalisedToken = token
+    .toUpperCase()
+    .replace(SURROUNDING_PUNCTUATION_PATTERN, '');
+
+  const routeAirports = findRouteAirports(normalisedToken);
+  if (routeAirports) {
+    return { token, type: 'route', airports: routeAirports };
+  }
+
+  // Some ICAO aircraft type designators look like flights (e.g. "B77W" could be
+  // B7 flight 7W), but they're much more likely to be aircraft
+  const icaoAircraft = AIRCRAFT_ICAO_CODE_PATTERN.test(normalisedToken)
+    ? findAircraftByIcaoCode(normalisedToken)
+    : undefined;
+  if (icaoAircraft) {
+    return { token, type: 'aircraft', aircraft: icaoAircraft };
+  }
+
+  const flightMatch = FLIGHT_PATTERN.exec(normalisedToken);
+  const flightAirline = flightMatch && findAirline(flightMatch[1]);
+  if (flightMatch && flightAirline) {
+    return {
+      token,
+      type: 'flight',
+      flightNumber: normalisedToken,
+      airline: flightAirline,
+    };
+  }
+
+  if (normalisedToken.length === 3) {
+    // Airport codes are letters only, so anything else is more likely an aircraft
+    const airport = /^[A-Z]{3}$/.test(normalisedToken)
+      ? findByIataCode(airportsDataset, normalisedToken)
+      : undefined;
+    if (airport) {
+      return { token, type: 'airport', airport };
+    }
+
+    const aircraft = findByIataCode(aircraftDataset, normalisedToken);
+    if (aircraft) {
+      return { token, type: 'aircraft', aircraft };
+    }
+  }
+
+  const airline = findAirline(normalisedToken);
+  if (airline) {
+    return { token, type: 'airline', airline };
+  }
+
+  if (DATE_PATTERN.test(normalisedToken)) {
+    return { token, type: 'date' };
+  }
+
+  if (TIME_PATTERN.test(normalisedToken)) {
+    return { token, type: 'time' };
+  }
+
+  return { token, type: 'unknown' };
+};
+
+const addUnique = <T>(objects: T[], object: T | undefined): void => {
+  if (object && !objects.includes(object)) {
+    objects.push(object);
+  }
+};
+
+/**
+ * Decodes free text like "BA117 LHR-JFK 77W" or a GDS segment line, splitting it
+ * on whitespace and recognising flights, routes, airports, airlines, aircraft,
+ * dates and times. Every token is returned, annotated with what it is.
+ */
+export const decodeText = (text: string): DecodedText => {
+  const words = text.split(/\s+/).filter((word) => word.length > 0);
+  const tokens: DecodedTextToken[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const decodedToken = decodeToken(words[i]);
+    const nextWord = words[i + 1]?.toUpperCase();
+
+    // An airline designator followed by a separate flight number (e.g. "BA 117")
+    // is one flight
+    if (
+      decodedToken.type === 'airline' &&
+      nextWord !== undefined &&
+      FLIGHT_NUMBER_PATTERN.test(nextWord)
+    ) {
+      const designator = words[i]
+        .toUpperCase()
+        .replace(SURROUNDING_PUNCTUATION_PATTERN, '');
+      tokens.push({
+        token: `${words[i]} ${words[i + 1]}`,
+        type: 'flight',
+        flightNumber: `${designator}${nextWord}`,
+        airline: decodedToken.airline,
+      });
+      i++;
+      continue;
+    }
+
+    tokens.push(decodedToken);
+  }
+
+  const airports: Airport[] = [];
+  const airlines: Airline[] = [];
+  const aircraft: Aircraft[] = [];
+
+  for (const token of tokens) {
+    addUnique(airports, token.airport);
+    (token.airports || []).forEach((airport) => addUnique(airports, airport));
+    addUnique(airlines, token.airline);
+    addUnique(aircraft, token.aircraft);
+  }
+
+  return { text, tokens, airports, airlines, aircraft };
+};
@@ -0,0 +1,65 @@
+// Swapping two adjacent characters (e.g. "JKF" for "JFK") is by far the most
+// common typo in short codes, so it costs less than other edits and ranks
+// above them
+const TRANSPOSITION_COST = 0.5;
+
+/**
+ * Calculates the optimal string alignment distance between two strings: the
+ * cost of the insertions, deletions, substitutions and adjacent transpositions
+ * needed to turn one into the other.
+ */
+export const editDistance = (a: string, b: string): number => {
+  // `rows[i][j]` is the distance between the first `i` characters of `a` and
+  // the first `j` characters of `b`
+  const rows: number[][] = [];
+
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + substitutionCost,
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, rows[i - 2][j - 2] + TRANSPOSITION_COST);
+      }
+
+      rows[i][j] = distance;
+    }
+  }
+
+  return rows[a.length][b.length];
+};
+
+/**
+ * Returns how far a search term can be from a candidate and still count as a
+ * match. Short terms get less leeway, since almost any two short strings are
+ * only an edit or two apart.
+ */
+export const getMaxEditDistance = (term: string): number => {
+  if (term.length >= 8) {
+    return 2;
+  } else if (term.length >= 3) {
+    return 1;
+  } else if (term.length === 2) {
+    return TRANSPOSITION_COST;
+  } else {
+    return 0;
+  }
+};
+
+/**
+ * Converts an edit distance into a score between 0 and 1, where 1 is an exact
+ * match.
+ */
+export const distanceToScore = (distance: number, term: string): number =>
+  Math.max(0, 1 - distance / Math.max(term.length, 1));
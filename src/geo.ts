@@ -0,0 +1,165 @@
+import { memoizeForObjects } from './utils.js';
+
+// The mean radius of the Earth
+const EARTH_RADIUS_KM = 6371.0088;
+
+// The size of each cell in a spatial index, in degrees of latitude and longitude
+const GRID_CELL_SIZE_DEGREES = 1;
+const KM_PER_DEGREE_OF_LATITUDE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Calculates the great-circle distance between two points using the haversine
+ * formula, in kilometres.
+ */
+export const haversineDistanceKm = (from: Coordinates, to: Coordinates): number => {
+  const deltaLatitude = toRadians(to.latitude - from.latitude);
+  const deltaLongitude = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(deltaLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(deltaLongitude / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Calculates the initial bearing (forward azimuth) for travelling from one point
+ * to another along a great circle, in degrees clockwise from true north.
+ */
+export const initialBearingDegrees = (from: Coordinates, to: Coordinates): number => {
+  const fromLatitude = toRadians(from.latitude);
+  const toLatitude = toRadians(to.latitude);
+  const deltaLongitude = toRadians(to.longitude - from.longitude);
+
+  const y = Math.sin(deltaLongitude) * Math.cos(toLatitude);
+  const x =
+    Math.cos(fromLatitude) * Math.sin(toLatitude) -
+    Math.sin(fromLatitude) * Math.cos(toLatitude) * Math.cos(deltaLongitude);
+
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+};
+
+// A grid of cells covering the globe, each holding the objects inside it, so
+// that a search only needs to look at the cells near the point searched for
+export type SpatialIndex<T> = Map<string, T[]>;
+
+const getCellIndex = (degrees: number): number =>
+  Math.floor(degrees / GRID_CELL_SIZE_DEGREES);
+
+const getCellKey = (latitudeCell: number, longitudeCell: number): string =>
+  `${latitudeCell}:${longitudeCell}`;
+
+const LONGITUDE_CELL_COUNT = 360 / GRID_CELL_SIZE_DEGREES;
+const MIN_LONGITUDE_CELL = getCellIndex(-180);
+
+// Wraps a longitude cell which has gone past the antimeridian back around
+const wrapLongitudeCell = (longitudeCell: number): number =>
+  ((((longitudeCell - MIN_LONGITUDE_CELL) % LONGITUDE_CELL_COUNT) +
+    LONGITUDE_CELL_COUNT) %
+    LONGITUDE_CELL_COUNT) +
+  MIN_LONGITUDE_CELL;
+
+/**
+ * Creates a spatial index for a dataset, grouping objects into grid cells by
+ * their coordinates.
+ */
+export const createSpatialIndex = <T extends Coordinates>(
+  objects: T[],
+): SpatialIndex<T> => {
+  const index: SpatialIndex<T> = new Map();
+
+  for (const object of objects) {
+    const key = getCellKey(
+      getCellIndex(object.latitude),
+      wrapLongitudeCell(getCellIndex(object.longitude)),
+    );
+    let existing = index.get(key);
+    if (!existing) {
+      existing = [];
+      index.set(key, existing);
+    }
+    existing.push(object);
+  }
+
+  return index;
+};
+
+/**
+ * Lazily creates and memoizes a spatial index for a dataset, in the same way as
+ * `createPrefixMapGetter`.
+ */
+export const createSpatialIndexGetter = <T extends Coordinates>(
+  loader: () => T[],
+): (() => SpatialIndex<T>) => memoizeForObjects(loader, createSpatialIndex);
+
+// Works out which longitude cells could contain points within `radiusKm` of
+// `point`. Near the poles, and for very large radiuses, that is all of them.
+const getLongitudeCells = (point: Coordinates, radiusKm: number): number[] => {
+  const latitudeRadius = radiusKm / KM_PER_DEGREE_OF_LATITUDE;
+  const furthestLatitude = Math.abs(point.latitude) + latitudeRadius;
+  const longitudeRadius =
+    furthestLatitude >= 90 ? 180 : latitudeRadius / Math.cos(toRadians(furthestLatitude));
+
+  if (longitudeRadius >= 180) {
+    return Array.from({ length: LONGITUDE_CELL_COUNT }, (_, i) => MIN_LONGITUDE_CELL + i);
+  }
+
+  const cells: number[] = [];
+  for (
+    let cell = getCellIndex(point.longitude - longitudeRadius);
+    cell <= getCellIndex(point.longitude + longitudeRadius);
+    cell++
+  ) {
+    cells.push(wrapLongitudeCell(cell));
+  }
+  // A wide enough range can wrap all the way around onto cells already included
+  return Array.from(new Set(cells));
+};
+
+export interface ObjectWithDistance<T> {
+  object: T;
+  distanceKm: number;
+}
+
+/**
+ * Finds the objects within `radiusKm` of a point, closest first, returning at
+ * most `limit` of them along with their distances.
+ */
+export const findNearby = <T extends Coordinates>(
+  spatialIndex: SpatialIndex<T>,
+  point: Coordinates,
+  radiusKm: number,
+  limit: number,
+): ObjectWithDistance<T>[] => {
+  const latitudeRadius = radiusKm / KM_PER_DEGREE_OF_LATITUDE;
+  const longitudeCells = getLongitudeCells(point, radiusKm);
+  const results: ObjectWithDistance<T>[] = [];
+
+  for (
+    let latitudeCell = getCellIndex(Math.max(-90, point.latitude - latitudeRadius));
+    latitudeCell <= getCellIndex(Math.min(90, point.latitude + latitudeRadius));
+    latitudeCell++
+  ) {
+    for (const longitudeCell of longitudeCells) {
+      const objects = spatialIndex.get(getCellKey(latitudeCell, longitudeCell)) || [];
+      for (const object of objects) {
+        const distanceKm = haversineDistanceKm(point, object);
+        if (distanceKm <= radiusKm) {
+          results.push({ object, distanceKm });
+        }
+      }
+    }
+  }
+
+  return results.sort((a, b) => a.distanceKm - b.distanceKm).slice(0, limit);
+};
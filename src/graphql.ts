@@ -0,0 +1,461 @@
+import {
+  FieldNode,
+  GraphQLCompositeType,
+  GraphQLError,
+  GraphQLField,
+  Kind,
+  SelectionSetNode,
+  ValidationContext,
+  ValidationRule,
+  getNamedType,
+  getNullableType,
+  isCompositeType,
+  isListType,
+  isUnionType,
+  valueFromAST,
+} from 'graphql';
+import { IResolvers } from 'mercurius';
+import { Airport, City, Country } from './types.js';
+import {
+  MAX_SEARCH_TEXT_LENGTH,
+  SearchOptions,
+  findByIataCode,
+  searchDataset,
+} from './search.js';
+import {
+  aircraftDataset,
+  airlinesDataset,
+  airportsDataset,
+  citiesDataset,
+  countriesDataset,
+  getAirportsSpatialIndex,
+} from './datasets.js';
+import { AirportFilters, filterAirports, getAirports } from './airports.js';
+import { getCityAirports } from './cities.js';
+import { findNearby } from './geo.js';
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  Page,
+  SortableObject,
+  applyListOptions,
+} from './pagination.js';
+
+// The furthest away, and the most, nearby airports which can be asked for, as
+// with `/airports/nearby`
+const MAX_NEARBY_RADIUS_KM = 5000;
+const MAX_NEARBY_LIMIT = 100;
+
+// The most deeply nested fields a query can ask for
+export const MAX_QUERY_DEPTH = 8;
+
+// The most a query can cost, where each field costs 1 each time it's resolved.
+// This allows a full page of airports with all of their fields, but not (say)
+// the nearby airports of every airport on a page.
+const MAX_QUERY_COST = 50000;
+
+// How many results lists without a `limit` are assumed to have when working
+// out what a query costs. Cities have a few airports at most, but a country can
+// have thousands.
+const ESTIMATED_LIST_SIZES: Record<string, number> = {
+  'City.airports': 10,
+  'Country.airports': 2500,
+};
+
+// The GraphQL schema, with types matching those in `types.ts`. Every list can
+// be searched and paginated like the REST API's list endpoints.
+export const schema = `
+  type City {
+    id: ID!
+    iataCode: String!
+    iataCountryCode: String!
+    name: String!
+    airports: [Airport!]!
+  }
+
+  type Country {
+    iataCode: String!
+    name: String!
+    continent: String!
+    currencyCode: String!
+    airportCount: Int!
+    airports: [Airport!]!
+  }
+
+  type NearbyAirport {
+    airport: Airport!
+    distanceKm: Float!
+  }
+
+  type Airport {
+    id: ID!
+    iataCode: String!
+    icaoCode: String
+    name: String!
+    latitude: Float!
+    longitude: Float!
+    timeZone: String!
+    iataCountryCode: String!
+    iataCityCode: String!
+    cityName: String!
+    city: City
+    country: Country
+    "The closest other airports, closest first"
+    nearby(radiusKm: Float = 100, limit: Int = 10): [NearbyAirport!]!
+    source: String
+  }
+
+  type Airline {
+    id: ID!
+    iataCode: String!
+    icaoCode: String
+    name: String!
+    logoSymbolUrl: String
+    logoLockupUrl: String
+    conditionsOfCarriageUrl: String
+    source: String
+  }
+
+  type Aircraft {
+    id: ID!
+    iataCode: String!
+    icaoCode: String
+    name: String!
+    manufacturer: String
+    family: String
+    bodyType: String
+    engineType: String
+    discontinued: Boolean!
+    source: String
+  }
+
+  type PageMeta {
+    "The number of results across all pages"
+    total: Int!
+    limit: Int!
+    "Pass this as the cursor to get the next page, or null on the last page"
+    nextCursor: String
+  }
+
+  type AirportPage {
+    data: [Airport!]!
+    meta: PageMeta!
+  }
+
+  type AirlinePage {
+    data: [Airline!]!
+    meta: PageMeta!
+  }
+
+  type AircraftPage {
+    data: [Aircraft!]!
+    meta: PageMeta!
+  }
+
+  type CityPage {
+    data: [City!]!
+    meta: PageMeta!
+  }
+
+  type CountryPage {
+    data: [Country!]!
+    meta: PageMeta!
+  }
+
+  type Query {
+    "Searches by full or partial IATA code (query), name and/or full or partial ICAO code (icao)"
+    airports(
+      query: String
+      name: String
+      icao: String
+      country: String
+      city: String
+      timeZone: String
+      limit: Int = ${DEFAULT_PAGE_SIZE}
+      cursor: String
+    ): AirportPage!
+    airport(iataCode: String!): Airport
+    airlines(
+      query: String
+      name: String
+      icao: String
+      limit: Int = ${DEFAULT_PAGE_SIZE}
+      cursor: String
+    ): AirlinePage!
+    airline(iataCode: String!): Airline
+    aircraft(
+      query: String
+      name: String
+      icao: String
+      limit: Int = ${DEFAULT_PAGE_SIZE}
+      cursor: String
+    ): AircraftPage!
+    aircraftType(iataCode: String!): Aircraft
+    cities(
+      query: String
+      name: String
+      limit: Int = ${DEFAULT_PAGE_SIZE}
+      cursor: String
+    ): CityPage!
+    city(iataCode: String!): City
+    countries(
+      query: String
+      name: String
+      limit: Int = ${DEFAULT_PAGE_SIZE}
+      cursor: String
+    ): CountryPage!
+    country(iataCode: String!): Country
+  }
+`;
+
+// GraphQL arguments are `null` if they're passed as `null`, rather than left out
+type NullableArgs<T> = { [K in keyof T]?: T[K] | null };
+
+interface CodeArgs {
+  iataCode: string;
+}
+
+interface NearbyArgs {
+  radiusKm: number;
+  limit: number;
+}
+
+interface PageArgs {
+  limit: number;
+  cursor: string;
+}
+
+type ListArgs = NullableArgs<SearchOptions & PageArgs>;
+
+// Checks that search arguments aren't too long to search for, like the REST API
+const toSearchOptions = (args: NullableArgs<SearchOptions>): SearchOptions => {
+  for (const argument of ['query', 'name', 'icao'] as const) {
+    if ((args[argument]?.length ?? 0) > MAX_SEARCH_TEXT_LENGTH) {
+      throw new Error(`${argument} must be at most ${MAX_SEARCH_TEXT_LENGTH} characters`);
+    }
+  }
+
+  return {
+    query: args.query ?? undefined,
+    name: args.name ?? undefined,
+    icao: args.icao ?? undefined,
+  };
+};
+
+/**
+ * Returns one page of a list, like the REST API's list endpoints do when given
+ * a `limit`. Lists are always paginated, so a query can't return every record
+ * at once.
+ */
+const paginate = <T extends SortableObject>(
+  objects: T[],
+  { limit, cursor }: NullableArgs<PageArgs>,
+): Page<T> => {
+  const pageSize = limit ?? DEFAULT_PAGE_SIZE;
+  if (!(pageSize >= 1 && pageSize <= MAX_PAGE_SIZE)) {
+    throw new Error(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  return applyListOptions(objects, { limit: pageSize, cursor: cursor ?? undefined }, []);
+};
+
+/**
+ * Finds the airports closest to an airport, leaving out the airport itself.
+ * Distances are rounded to the nearest 10 metres.
+ */
+const findNearbyAirports = (
+  airport: Airport,
+  { radiusKm, limit }: NearbyArgs,
+): { airport: Airport; distanceKm: number }[] => {
+  if (!(radiusKm > 0 && radiusKm <= MAX_NEARBY_RADIUS_KM)) {
+    throw new Error(`radiusKm must be more than 0 and at most ${MAX_NEARBY_RADIUS_KM}`);
+  }
+  if (!(limit >= 1 && limit <= MAX_NEARBY_LIMIT)) {
+    throw new Error(`limit must be between 1 and ${MAX_NEARBY_LIMIT}`);
+  }
+
+  return findNearby(getAirportsSpatialIndex(), airport, radiusKm, limit + 1)
+    .filter(({ object }) => object.id !== airport.id)
+    .slice(0, limit)
+    .map(({ object, distanceKm }) => ({
+      airport: object,
+      distanceKm: Math.round(distanceKm * 100) / 100,
+    }));
+};
+
+// Works out how many results a list field can return. Variables aren't known
+// when a query is validated, so limits given as variables are assumed to be as
+// large as they're allowed to be.
+const getListSize = (
+  node: FieldNode,
+  field: GraphQLField<unknown, unknown>,
+  parentType: GraphQLCompositeType,
+  pageSize: number | undefined,
+): number => {
+  const limitArgument = field.args.find(({ name }) => name === 'limit');
+  if (!limitArgument) {
+    return (
+      pageSize ??
+      ESTIMATED_LIST_SIZES[`${parentType.name}.${field.name}`] ??
+      MAX_PAGE_SIZE
+    );
+  }
+
+  const limitNode = node.arguments?.find(({ name }) => name.value === 'limit');
+  if (limitNode?.value.kind === Kind.VARIABLE) {
+    return field.name === 'nearby' ? MAX_NEARBY_LIMIT : MAX_PAGE_SIZE;
+  }
+
+  const limit = limitNode
+    ? valueFromAST(limitNode.value, limitArgument.type)
+    : limitArgument.defaultValue;
+  return typeof limit === 'number' ? limit : DEFAULT_PAGE_SIZE;
+};
+
+/**
+ * Works out the most a selection set can cost each time it's resolved. Pages
+ * pass their size down to their `data`.
+ */
+const getSelectionSetCost = (
+  context: ValidationContext,
+  selectionSet: SelectionSetNode,
+  parentType: GraphQLCompositeType,
+  pageSize?: number,
+  visitedFragments: Set<string> = new Set(),
+): number => {
+  let cost = 0;
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FRAGMENT_SPREAD) {
+      const fragmentName = selection.name.value;
+      const fragment = context.getFragment(fragmentName);
+      const fragmentType = fragment
+        ? context.getSchema().getType(fragment.typeCondition.name.value)
+        : undefined;
+      // Fragment cycles are reported by the standard validation rules
+      if (
+        fragment &&
+        isCompositeType(fragmentType) &&
+        !visitedFragments.has(fragmentName)
+      ) {
+        cost += getSelectionSetCost(
+          context,
+          fragment.selectionSet,
+          fragmentType,
+          pageSize,
+          new Set([...visitedFragments, fragmentName]),
+        );
+      }
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      const fragmentType = selection.typeCondition
+        ? context.getSchema().getType(selection.typeCondition.name.value)
+        : parentType;
+      if (isCompositeType(fragmentType)) {
+        cost += getSelectionSetCost(
+          context,
+          selection.selectionSet,
+          fragmentType,
+          pageSize,
+          visitedFragments,
+        );
+      }
+    } else {
+      cost += 1;
+
+      const field = isUnionType(parentType)
+        ? undefined
+        : parentType.getFields()[selection.name.value];
+      const fieldType = field ? getNamedType(field.type) : undefined;
+      if (!field || !selection.selectionSet || !isCompositeType(fieldType)) {
+        continue;
+      }
+
+      if (isListType(getNullableType(field.type))) {
+        cost +=
+          getListSize(selection, field, parentType, pageSize) *
+          getSelectionSetCost(
+            context,
+            selection.selectionSet,
+            fieldType,
+            undefined,
+            visitedFragments,
+          );
+      } else {
+        const childPageSize = field.args.some(({ name }) => name === 'limit')
+          ? getListSize(selection, field, parentType, undefined)
+          : undefined;
+        cost += getSelectionSetCost(
+          context,
+          selection.selectionSet,
+          fieldType,
+          childPageSize,
+          visitedFragments,
+        );
+      }
+    }
+  }
+  return cost;
+};
+
+// Rejects queries which would cost too much to answer, going by the most
+// results each list in them could return
+const queryCostRule: ValidationRule = (context) => ({
+  OperationDefinition: (operation) => {
+    const rootType = context.getSchema().getRootType(operation.operation);
+    if (!rootType) {
+      return;
+    }
+
+    const cost = getSelectionSetCost(context, operation.selectionSet, rootType);
+    if (cost > MAX_QUERY_COST) {
+      context.reportError(
+        new GraphQLError(
+          `The query could cost up to ${cost}, which is more than the maximum of ${MAX_QUERY_COST}`,
+          { nodes: operation },
+        ),
+      );
+    }
+  },
+});
+
+export const validationRules: ValidationRule[] = [queryCostRule];
+
+export const resolvers: IResolvers = {
+  Query: {
+    airports: (_root, args: ListArgs & NullableArgs<AirportFilters>) =>
+      paginate(
+        filterAirports(searchDataset(airportsDataset, toSearchOptions(args)), {
+          country: args.country ?? undefined,
+          city: args.city ?? undefined,
+          timeZone: args.timeZone ?? undefined,
+        }),
+        args,
+      ),
+    airport: (_root, { iataCode }: CodeArgs) => findByIataCode(airportsDataset, iataCode),
+    airlines: (_root, args: ListArgs) =>
+      paginate(searchDataset(airlinesDataset, toSearchOptions(args)), args),
+    airline: (_root, { iataCode }: CodeArgs) => findByIataCode(airlinesDataset, iataCode),
+    aircraft: (_root, args: ListArgs) =>
+      paginate(searchDataset(aircraftDataset, toSearchOptions(args)), args),
+    aircraftType: (_root, { iataCode }: CodeArgs) =>
+      findByIataCode(aircraftDataset, iataCode),
+    cities: (_root, args: ListArgs) =>
+      paginate(searchDataset(citiesDataset, toSearchOptions(args)), args),
+    city: (_root, { iataCode }: CodeArgs) => findByIataCode(citiesDataset, iataCode),
+    countries: (_root, args: ListArgs) =>
+      paginate(searchDataset(countriesDataset, toSearchOptions(args)), args),
+    country: (_root, { iataCode }: CodeArgs) =>
+      findByIataCode(countriesDataset, iataCode),
+  },
+  Airport: {
+    country: (airport: Airport) =>
+      findByIataCode(countriesDataset, airport.iataCountryCode) ?? null,
+    nearby: (airport: Airport, args: NearbyArgs) => findNearbyAirports(airport, args),
+  },
+  City: {
+    airports: (city: City) => getCityAirports(city.iataCode),
+  },
+  Country: {
+    airports: (country: Country) =>
+      filterAirports(getAirports(), { country: country.iataCode }),
+  },
+};
@@ -0,0 +1,98 @@
+import { Keyable, ObjectWithIataCode, ValidityPeriod } from './types.js';
+import { RecordDatasetName, getData } from './data-source.js';
+import { SearchableDataset } from './search.js';
+import { memoizeForObjects } from './utils.js';
+
+type HistoricalObject = ObjectWithIataCode & ValidityPeriod & { id: string };
+
+const ONE_DAY_IN_MILLISECONDS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks whether a record was valid on a date (YYYY-MM-DD). Dates in this
+ * format can be compared as strings.
+ */
+export const isValidOn = (
+  { validFrom, validTo }: ValidityPeriod,
+  date: string,
+): boolean => (!validFrom || validFrom <= date) && (!validTo || date <= validTo);
+
+const hasValidityPeriod = ({ validFrom, validTo }: ValidityPeriod): boolean =>
+  Boolean(validFrom || validTo);
+
+const getNextDay = (date: string): string =>
+  new Date(Date.parse(date) + ONE_DAY_IN_MILLISECONDS).toISOString().slice(0, 10);
+
+/**
+ * Returns the historical records for a dataset from the data files, with snake
+ * case keys.
+ */
+export const getHistoricalRecords = (dataset: RecordDatasetName): Keyable[] =>
+  getData()
+    .historical.filter((record) => record.dataset === dataset)
+    .map((record) =>
+      Object.fromEntries(Object.entries(record).filter(([key]) => key !== 'dataset')),
+    );
+
+/**
+ * Combines the current records in a dataset with its historical records. Current
+ * records without a `validFrom` date are taken to start the day after the last
+ * historical record with their IATA code ended, so that there's only one record
+ * with each code on any date.
+ */
+export const addHistoricalRecords = <T extends HistoricalObject>(
+  currentObjects: T[],
+  historicalObjects: T[],
+): T[] => {
+  const lastValidTo = new Map<string, string>();
+  for (const { iataCode, validTo } of historicalObjects) {
+    const previousValidTo = lastValidTo.get(iataCode);
+    if (validTo && (!previousValidTo || validTo > previousValidTo)) {
+      lastValidTo.set(iataCode, validTo);
+    }
+  }
+
+  return [
+    ...currentObjects.map((object) => {
+      const validTo = lastValidTo.get(object.iataCode);
+      return validTo && !object.validFrom
+        ? { ...object, validFrom: getNextDay(validTo) }
+        : object;
+    }),
+    ...historicalObjects,
+  ];
+};
+
+/**
+ * Creates a function which returns a searchable dataset of the objects which
+ * were valid on a date, given a loader for every object (current and
+ * historical) and a function which creates a dataset from a loader.
+ *
+ * Which objects are valid only changes on the dates when some start or stop
+ * being valid, so dates with the same objects share a dataset (and its
+ * indexes). The datasets are rebuilt when the loader returns different objects.
+ */
+export const createDatasetAsOfGetter = <T extends HistoricalObject>(
+  getObjects: () => T[],
+  createDataset: (getObjects: () => T[]) => SearchableDataset<T>,
+): ((date: string) => SearchableDataset<T>) => {
+  const getDatasets = memoizeForObjects(
+    getObjects,
+    () => new Map<string, SearchableDataset<T>>(),
+  );
+
+  return (date: string): SearchableDataset<T> => {
+    const datasets = getDatasets();
+    const validObjects = getObjects().filter((object) => isValidOn(object, date));
+    const key = validObjects
+      .filter(hasValidityPeriod)
+      .map(({ id }) => id)
+      .join(',');
+
+    let dataset = datasets.get(key);
+    if (!dataset) {
+      dataset = createDataset(() => validObjects);
+      datasets.set(key, dataset);
+    }
+    return dataset;
+  };
+};
@@ -1,11 +1,15 @@
 import app from './api.js';
 import dotenv from 'dotenv';
+import { DataReloadResult, reloadData, watchDataDir } from './data-source.js';
 
 dotenv.config();
 
 const DEFAULT_PORT = 3000;
 const PORT = parseInt(process.env.PORT || String(DEFAULT_PORT), 10);
 
+const logReload = (result: DataReloadResult) => app.log.info(result, 'Reloaded data');
+const logReloadError = (error: Error) => app.log.error(error, 'Failed to reload data');
+
 const start = async () => {
   try {
     await app.listen({ port: PORT, host: '0.0.0.0' });
@@ -14,6 +18,16 @@ const start = async () => {
     app.log.error(err);
     process.exit(1);
   }
+
+  // Data can be reloaded without restarting by sending a SIGHUP, or
+  // automatically whenever the files change if `WATCH_DATA` is set
+  process.on('SIGHUP', () => {
+    reloadData().then(logReload, logReloadError);
+  });
+
+  if (process.env.WATCH_DATA === 'true') {
+    watchDataDir(logReload, logReloadError);
+  }
 };
 
 start();
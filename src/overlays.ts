@@ -0,0 +1,212 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { Keyable } from './types.js';
+import { cameliseKeys, snakeCaseKeys } from './utils.js';
+import { normaliseDatasetRecord } from './data-import.js';
+import {
+  DataValidationError,
+  RecordDatasetName,
+  getData,
+  getDataFilePath,
+  reloadData,
+} from './data-source.js';
+
+// Overlays are stored with snake case keys, like the data files they change
+export interface Overlay extends Keyable {
+  dataset: RecordDatasetName;
+  // The IATA code of the record to change or hide, or of the record to add
+  iata_code: string;
+  // Whether to hide the record, rather than change it
+  hidden?: boolean;
+}
+
+// The keys of an overlay which say what it applies to, rather than being fields
+// of the record
+const OVERLAY_KEYS = ['dataset', 'hidden'];
+
+const getOverlayFields = (overlay: Overlay): Keyable =>
+  Object.fromEntries(
+    Object.entries(overlay).filter(([key]) => !OVERLAY_KEYS.includes(key)),
+  );
+
+/**
+ * Applies overlays to the records from a data file. Records with an overlay
+ * are hidden, or have the overlay's fields merged into them, and overlays
+ * without a matching record are added as new records, with any fields they
+ * leave out set to `null` like in the data files. Records which are added or
+ * changed are marked with `source: 'overlay'`.
+ */
+export const applyOverlays = (records: Keyable[], overlays: Overlay[]): Keyable[] => {
+  if (overlays.length === 0) {
+    return records;
+  }
+
+  const overlaysByIataCode = new Map(
+    overlays.map((overlay) => [overlay.iata_code, overlay]),
+  );
+  const overlaidRecords: Keyable[] = [];
+  for (const record of records) {
+    const overlay = overlaysByIataCode.get(record.iata_code);
+    overlaysByIataCode.delete(record.iata_code);
+
+    if (!overlay) {
+      overlaidRecords.push(record);
+    } else if (!overlay.hidden) {
+      overlaidRecords.push({
+        ...record,
+        ...getOverlayFields(overlay),
+        source: 'overlay',
+      });
+    }
+  }
+
+  // Whatever's left doesn't match an existing record
+  for (const overlay of overlaysByIataCode.values()) {
+    if (!overlay.hidden) {
+      overlaidRecords.push({
+        ...normaliseDatasetRecord(overlay.dataset, getOverlayFields(overlay)),
+        source: 'overlay',
+      });
+    }
+  }
+
+  return overlaidRecords;
+};
+
+/**
+ * Returns every overlay, or only those for one dataset.
+ */
+export const getOverlays = (dataset?: RecordDatasetName): Overlay[] =>
+  (getData().overlays as Overlay[]).filter(
+    (overlay) => dataset === undefined || overlay.dataset === dataset,
+  );
+
+/**
+ * Returns the records from a data file, with their overlays applied.
+ */
+export const getRecordsWithOverlays = (dataset: RecordDatasetName): Keyable[] =>
+  applyOverlays(getData()[dataset], getOverlays(dataset));
+
+/**
+ * Converts an overlay to camel case, like the rest of the API's responses.
+ */
+export const presentOverlay = (overlay: Overlay): Keyable => {
+  const presentedOverlay: Keyable = cameliseKeys(overlay);
+  return presentedOverlay.city
+    ? { ...presentedOverlay, city: cameliseKeys(presentedOverlay.city) }
+    : presentedOverlay;
+};
+
+/**
+ * Creates an overlay for a record from the fields in a camel case request body.
+ */
+export const createOverlay = (
+  dataset: RecordDatasetName,
+  iataCode: string,
+  body: Keyable,
+): Overlay => {
+  const fields: Keyable = snakeCaseKeys(body);
+  if (typeof fields.city === 'object' && fields.city !== null) {
+    fields.city = snakeCaseKeys(fields.city);
+  }
+
+  return { ...fields, dataset, iata_code: iataCode };
+};
+
+const readOverlaysFile = async (filePath: string): Promise<string | undefined> => {
+  try {
+    return await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw new DataValidationError(
+      `Unable to read overlays.json: ${(error as Error).message}`,
+    );
+  }
+};
+
+// Writes to a temporary file first, so the file is never half written if the
+// data is being watched
+const writeOverlaysFile = async (filePath: string, contents: string) => {
+  const temporaryFilePath = `${filePath}.tmp`;
+  await writeFile(temporaryFilePath, contents);
+  await rename(temporaryFilePath, filePath);
+};
+
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+// Changes the overlays file and reloads the data, unless `update` returns the
+// same overlays it was given
+const updateOverlays = async (
+  update: (overlays: Overlay[]) => Overlay[],
+): Promise<void> => {
+  const filePath = getDataFilePath('overlays');
+  const previousContents = await readOverlaysFile(filePath);
+
+  let overlays: Overlay[];
+  try {
+    overlays = JSON.parse(previousContents ?? '[]');
+  } catch (error) {
+    throw new DataValidationError(
+      `overlays.json is not valid JSON: ${(error as Error).message}`,
+    );
+  }
+
+  const updatedOverlays = update(overlays);
+  if (updatedOverlays === overlays) {
+    return;
+  }
+
+  await writeOverlaysFile(filePath, `${JSON.stringify(updatedOverlays, null, 2)}\n`);
+
+  // If the new overlays are invalid, the old data is kept, so the file is put
+  // back to match it
+  try {
+    await reloadData();
+  } catch (error) {
+    await writeOverlaysFile(filePath, previousContents ?? '[]\n');
+    throw error;
+  }
+};
+
+/**
+ * Adds or replaces the overlay for a record in the overlays file, then reloads
+ * the data. If the overlay is invalid, a `DataValidationError` is thrown and
+ * nothing is changed. Changes are made one at a time, so none are lost.
+ */
+export const saveOverlay = (overlay: Overlay): Promise<void> => {
+  const result = pendingUpdate.then(() =>
+    updateOverlays((overlays) => [
+      ...overlays.filter(
+        ({ dataset, iata_code }) =>
+          dataset !== overlay.dataset || iata_code !== overlay.iata_code,
+      ),
+      overlay,
+    ]),
+  );
+  pendingUpdate = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Removes the overlay for a record from the overlays file, then reloads the
+ * data. Returns `false` if there was no overlay for the record.
+ */
+export const deleteOverlay = (
+  dataset: RecordDatasetName,
+  iataCode: string,
+): Promise<boolean> => {
+  let deleted = false;
+  const result = pendingUpdate.then(async () => {
+    await updateOverlays((overlays) => {
+      const remainingOverlays = overlays.filter(
+        (overlay) => overlay.dataset !== dataset || overlay.iata_code !== iataCode,
+      );
+      deleted = remainingOverlays.length < overlays.length;
+      return deleted ? remainingOverlays : overlays;
+    });
+    return deleted;
+  });
+  pendingUpdate = result.catch(() => undefined);
+  return result;
+};
@@ -0,0 +1,160 @@
+export type SortOrder = 'name' | '-name' | 'iataCode' | '-iataCode';
+
+export const SORT_ORDERS: SortOrder[] = ['name', '-name', 'iataCode', '-iataCode'];
+
+export interface ListOptions {
+  // The most results to return in one page
+  limit?: number;
+  // Where to start the page from, taken from the previous page's `nextCursor`
+  cursor?: string;
+  // A comma-separated list of the fields to include in each result
+  fields?: string;
+  sort?: SortOrder;
+}
+
+export interface PageMeta {
+  // The number of results across all pages
+  total: number;
+  limit: number;
+  // Pass this as the `cursor` to get the next page, or `null` on the last page
+  nextCursor: string | null;
+}
+
+export interface Page<T> {
+  data: Partial<T>[];
+  // Only included when paginating
+  meta?: PageMeta;
+}
+
+/**
+ * Thrown when list options are invalid. Fastify responds to errors with a
+ * `statusCode` using that status code and the error's message.
+ */
+export class InvalidListOptionsError extends Error {
+  statusCode = 400;
+}
+
+// Used when a cursor is given without a limit
+export const DEFAULT_PAGE_SIZE = 100;
+
+// The most results which can be requested in one page with `limit`
+export const MAX_PAGE_SIZE = 1000;
+
+// Cursors are opaque to clients, so we can change what goes in them later
+export const encodeCursor = (offset: number): string =>
+  Buffer.from(`offset:${offset}`).toString('base64url');
+
+export const decodeCursor = (cursor: string): number => {
+  const match = /^offset:(\d+)$/.exec(Buffer.from(cursor, 'base64url').toString());
+  if (!match) {
+    throw new InvalidListOptionsError(`Invalid cursor: ${cursor}`);
+  }
+  return parseInt(match[1], 10);
+};
+
+const collator = new Intl.Collator('en', { sensitivity: 'base', numeric: true });
+
+export interface SortableObject {
+  iataCode: string;
+  name: string;
+}
+
+/**
+ * Returns a sorted copy of a list, leaving the original (which may be a whole
+ * dataset) untouched.
+ */
+export const sortObjects = <T extends SortableObject>(
+  objects: T[],
+  sort: SortOrder,
+): T[] => {
+  const descending = sort.startsWith('-');
+  const field = (descending ? sort.slice(1) : sort) as keyof SortableObject;
+  const direction = descending ? -1 : 1;
+
+  return [...objects].sort((a, b) => direction * collator.compare(a[field], b[field]));
+};
+
+/**
+ * Parses a comma-separated list of values (e.g. `iataCode,name`), checking
+ * that each one is allowed. `description` is used in the error message.
+ */
+export const parseAllowedValues = (
+  values: string,
+  allowedValues: string[],
+  description: string,
+): string[] => {
+  const parsedValues = values
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+
+  const unknownValues = parsedValues.filter((value) => !allowedValues.includes(value));
+  if (unknownValues.length > 0) {
+    throw new InvalidListOptionsError(
+      `Unknown ${description}: ${unknownValues.join(', ')}`,
+    );
+  }
+
+  return parsedValues;
+};
+
+export const parseFields = (fields: string, allowedFields: string[]): string[] =>
+  parseAllowedValues(fields, allowedFields, 'fields');
+
+/**
+ * Copies only the given fields of each object. The results still match the
+ * response schema, since every property in it is optional.
+ */
+export const selectFields = <T extends object>(
+  objects: T[],
+  fields: string[],
+): Partial<T>[] =>
+  objects.map((object) => {
+    const selected: Partial<T> = {};
+    for (const field of fields) {
+      if (field in object) {
+        selected[field as keyof T] = object[field as keyof T];
+      }
+    }
+    return selected;
+  });
+
+/**
+ * Sorts, paginates and selects fields from a list of results. Pagination only
+ * happens - and `meta` is only included - if a `limit` or `cursor` is given,
+ * so by default the whole list is returned.
+ *
+ * `decorate` can add extra data to the results on the page before fields are
+ * selected, so it only has to be worked out for the results returned.
+ */
+export const applyListOptions = <T extends SortableObject>(
+  objects: T[],
+  { limit, cursor, fields, sort }: ListOptions,
+  allowedFields: string[],
+  decorate: (objects: T[]) => T[] = (objects) => objects,
+): Page<T> => {
+  const selectedFields = fields !== undefined ? parseFields(fields, allowedFields) : [];
+  const sorted = sort ? sortObjects(objects, sort) : objects;
+
+  let page: { data: T[]; meta?: PageMeta };
+  if (limit === undefined && cursor === undefined) {
+    page = { data: decorate(sorted) };
+  } else {
+    const offset = cursor !== undefined ? decodeCursor(cursor) : 0;
+    const pageSize = limit ?? DEFAULT_PAGE_SIZE;
+    const nextOffset = offset + pageSize;
+
+    page = {
+      data: decorate(sorted.slice(offset, nextOffset)),
+      meta: {
+        total: sorted.length,
+        limit: pageSize,
+        nextCursor: nextOffset < sorted.length ? encodeCursor(nextOffset) : null,
+      },
+    };
+  }
+
+  return selectedFields.length > 0
+    ? { ...page, data: selectFields(page.data, selectedFields) }
+    : page;
+};
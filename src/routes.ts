@@ -0,0 +1,112 @@
+import { Airport } from './types.js';
+import { haversineDistanceKm, initialBearingDegrees } from './geo.js';
+import {
+  formatLocalDateTime,
+  formatUtcOffset,
+  getUtcOffsetMinutes,
+  parseLocalDateTime,
+} from './time.js';
+
+const MILES_PER_KM = 0.621371;
+const NAUTICAL_MILES_PER_KM = 0.539957;
+
+export interface RouteInfo {
+  from: Airport;
+  to: Airport;
+  distanceKm: number;
+  distanceMi: number;
+  distanceNm: number;
+  // In degrees clockwise from true north
+  initialBearing: number;
+  fromTimeZone: string;
+  toTimeZone: string;
+  // Formatted like "+01:00"
+  fromUtcOffset: string;
+  toUtcOffset: string;
+  // How far ahead of `from` the local time at `to` is (negative if it is behind)
+  utcOffsetDifferenceMinutes: number;
+}
+
+const roundTo = (value: number, decimalPlaces: number): number => {
+  const factor = 10 ** decimalPlaces;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Calculates the great-circle distance and initial bearing between two
+ * airports, along with how their local times compare at the given moment.
+ */
+export const calculateRoute = (
+  from: Airport,
+  to: Airport,
+  date = new Date(),
+): RouteInfo => {
+  const distanceKm = haversineDistanceKm(from, to);
+  const fromUtcOffsetMinutes = getUtcOffsetMinutes(from.timeZone, date);
+  const toUtcOffsetMinutes = getUtcOffsetMinutes(to.timeZone, date);
+
+  return {
+    from,
+    to,
+    distanceKm: roundTo(distanceKm, 1),
+    distanceMi: roundTo(distanceKm * MILES_PER_KM, 1),
+    distanceNm: roundTo(distanceKm * NAUTICAL_MILES_PER_KM, 1),
+    initialBearing: roundTo(initialBearingDegrees(from, to), 1),
+    fromTimeZone: from.timeZone,
+    toTimeZone: to.timeZone,
+    fromUtcOffset: formatUtcOffset(fromUtcOffsetMinutes),
+    toUtcOffset: formatUtcOffset(toUtcOffsetMinutes),
+    utcOffsetDifferenceMinutes: toUtcOffsetMinutes - fromUtcOffsetMinutes,
+  };
+};
+
+export interface AirportTime {
+  iataCode: string;
+  timeZone: string;
+  // An ISO 8601 local date and time with the offset, e.g. "2026-07-15T13:00:00+01:00"
+  localTime: string;
+  // Formatted like "+01:00"
+  utcOffset: string;
+  // The same moment in UTC, e.g. "2026-07-15T12:00:00.000Z"
+  utc: string;
+}
+
+export interface FlightTimes {
+  departure: AirportTime;
+  arrival: AirportTime;
+  durationMinutes: number;
+}
+
+const getAirportTime = (airport: Airport, date: Date): AirportTime => ({
+  iataCode: airport.iataCode,
+  timeZone: airport.timeZone,
+  localTime: formatLocalDateTime(airport.timeZone, date),
+  utcOffset: formatUtcOffset(getUtcOffsetMinutes(airport.timeZone, date)),
+  utc: date.toISOString(),
+});
+
+/**
+ * Works out the local arrival time of a flight, given its local departure time
+ * without an offset (e.g. `2026-03-29T10:30`) and how long it takes. Daylight
+ * saving time is taken into account at both ends. Returns `null` if the
+ * departure time isn't a valid date and time.
+ */
+export const calculateFlightTimes = (
+  from: Airport,
+  to: Airport,
+  localDepartureTime: string,
+  durationMinutes: number,
+): FlightTimes | null => {
+  const departure = parseLocalDateTime(from.timeZone, localDepartureTime);
+  if (!departure) {
+    return null;
+  }
+
+  const arrival = new Date(departure.getTime() + durationMinutes * 60 * 1000);
+
+  return {
+    departure: getAirportTime(from, departure),
+    arrival: getAirportTime(to, arrival),
+    durationMinutes,
+  };
+};
@@ -0,0 +1,469 @@
+import { ObjectWithIataCode } from './types.js';
+import { memoizeForObjects, tokenise } from './utils.js';
+import { distanceToScore, editDistance, getMaxEditDistance } from './fuzzy.js';
+
+/**
+ * Creates a Map where keys are all possible non-empty lowercase prefixes of the
+ * IATA codes in the provided dataset. This enables O(1) access to the candidate
+ * list for a given prefix (overall query cost is still O(k) for k results).
+ *
+ * Other codes (e.g. ICAO codes) can be indexed instead by passing `getCode`.
+ * Objects without a code are left out.
+ */
+export const createPrefixMap = <T extends ObjectWithIataCode>(
+  objects: T[],
+  getCode: (object: T) => string | null | undefined = (object) => object.iataCode,
+): Map<string, T[]> => {
+  const map = new Map<string, T[]>();
+
+  for (const object of objects) {
+    const code = getCode(object)?.toLowerCase();
+    if (!code) {
+      continue;
+    }
+
+    for (let i = 1; i <= code.length; i++) {
+      const prefix = code.slice(0, i);
+      let existing = map.get(prefix);
+      if (!existing) {
+        existing = [];
+        map.set(prefix, existing);
+      }
+      existing.push(object);
+    }
+  }
+
+  return map;
+};
+
+/**
+ * Lazily creates and memoizes a prefix map for a dataset so the underlying
+ * loader and indexing work only happen on first use. The prefix map is rebuilt
+ * if the loader returns different objects (e.g. after the data is reloaded).
+ */
+export const createPrefixMapGetter = <T extends ObjectWithIataCode>(
+  loader: () => T[],
+  getCode?: (object: T) => string | null | undefined,
+): (() => Map<string, T[]>) =>
+  memoizeForObjects(loader, (objects) => createPrefixMap(objects, getCode));
+
+/**
+ * Filters objects by partial IATA code using a pre-calculated prefix map,
+ * providing O(1) access to the matching candidate list. This works just as well
+ * for a prefix map of another kind of code, like ICAO codes.
+ */
+export const filterObjectsByPartialIataCode = <T extends ObjectWithIataCode>(
+  prefixMap: Map<string, T[]>,
+  partialIataCode: string,
+  iataCodeLength: number,
+): T[] => {
+  const normalizedQuery = partialIataCode.toLowerCase();
+  if (normalizedQuery.length > iataCodeLength) {
+    return [];
+  }
+
+  return prefixMap.get(normalizedQuery) || [];
+};
+
+// A field of an object which should be searchable by name, along with how much
+// a match on that field should count towards an object's relevance
+export interface NameField<T> {
+  getValue: (object: T) => string | null | undefined;
+  weight: number;
+}
+
+interface NamePosting<T> {
+  object: T;
+  weight: number;
+}
+
+export interface NameIndex<T> {
+  // Every distinct token in the dataset, sorted so that all tokens sharing a
+  // prefix sit next to each other and can be found with a binary search
+  tokens: string[];
+  postings: Map<string, NamePosting<T>[]>;
+}
+
+// A token which only matches the start of a word (e.g. "heath" for "heathrow")
+// is a weaker signal than a whole-word match
+const PREFIX_MATCH_SCORE = 0.6;
+const EXACT_MATCH_SCORE = 1;
+
+/**
+ * Creates an inverted index from normalised name tokens to the objects whose
+ * names contain them. This is the name equivalent of `createPrefixMap`.
+ */
+export const createNameIndex = <T>(
+  objects: T[],
+  fields: NameField<T>[],
+): NameIndex<T> => {
+  const postings = new Map<string, NamePosting<T>[]>();
+
+  for (const object of objects) {
+    for (const field of fields) {
+      const value = field.getValue(object);
+      if (!value) {
+        continue;
+      }
+
+      for (const token of new Set(tokenise(value))) {
+        let existing = postings.get(token);
+        if (!existing) {
+          existing = [];
+          postings.set(token, existing);
+        }
+        existing.push({ object, weight: field.weight });
+      }
+    }
+  }
+
+  return { tokens: Array.from(postings.keys()).sort(), postings };
+};
+
+/**
+ * Lazily creates and memoizes a name index for a dataset, in the same way as
+ * `createPrefixMapGetter`.
+ */
+export const createNameIndexGetter = <T>(
+  loader: () => T[],
+  fields: NameField<T>[],
+): (() => NameIndex<T>) =>
+  memoizeForObjects(loader, (objects) => createNameIndex(objects, fields));
+
+// Returns the position of the first token which is greater than or equal to
+// `prefix`, which is where any tokens starting with `prefix` begin
+const findFirstTokenIndex = (tokens: string[], prefix: string): number => {
+  let low = 0;
+  let high = tokens.length;
+
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (tokens[middle] < prefix) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return low;
+};
+
+// A token which is only within a few edits of a word (e.g. "heathrw" for
+// "heathrow") is weaker still, and is scaled down by how far away it is
+const FUZZY_MATCH_SCORE = 0.5;
+
+// Adds a score for every object containing `token`, keeping the best score for
+// each object
+const addTokenScores = <T>(
+  scores: Map<T, number>,
+  nameIndex: NameIndex<T>,
+  token: string,
+  matchScore: number,
+): void => {
+  for (const posting of nameIndex.postings.get(token) || []) {
+    const score = matchScore * posting.weight;
+    if (score > (scores.get(posting.object) || 0)) {
+      scores.set(posting.object, score);
+    }
+  }
+};
+
+// Scores every object containing a token which matches `queryToken`, either
+// exactly or as a prefix - or, if `fuzzy` is set, within a few edits
+const scoreQueryToken = <T>(
+  nameIndex: NameIndex<T>,
+  queryToken: string,
+  fuzzy: boolean,
+): Map<T, number> => {
+  const scores = new Map<T, number>();
+  const { tokens } = nameIndex;
+
+  for (
+    let i = findFirstTokenIndex(tokens, queryToken);
+    i < tokens.length && tokens[i].startsWith(queryToken);
+    i++
+  ) {
+    const token = tokens[i];
+    const matchScore = token === queryToken ? EXACT_MATCH_SCORE : PREFIX_MATCH_SCORE;
+    addTokenScores(scores, nameIndex, token, matchScore);
+  }
+
+  const maxDistance = getMaxEditDistance(queryToken);
+  if (fuzzy && maxDistance > 0) {
+    for (const token of tokens) {
+      if (
+        Math.abs(token.length - queryToken.length) > maxDistance ||
+        token.startsWith(queryToken)
+      ) {
+        continue;
+      }
+
+      const distance = editDistance(queryToken, token);
+      if (distance <= maxDistance) {
+        const matchScore = FUZZY_MATCH_SCORE * distanceToScore(distance, queryToken);
+        addTokenScores(scores, nameIndex, token, matchScore);
+      }
+    }
+  }
+
+  return scores;
+};
+
+export interface ScoredObject<T> {
+  object: T;
+  // Between 0 and 1, where 1 is a perfect match
+  score: number;
+}
+
+// Sorts results with the highest score first. Sorting is stable, so ties stay
+// in the dataset's order.
+const sortByScore = <T>(results: ScoredObject<T>[]): ScoredObject<T>[] =>
+  results.sort((a, b) => b.score - a.score);
+
+/**
+ * Searches a name index, returning objects which match every token in the
+ * query (as a whole word or the start of one) along with a relevance score,
+ * most relevant first. Matching ignores case and accents, so "zurich" finds
+ * "Zürich". If `fuzzy` is set, words with typos (e.g. "heathrw") also match.
+ */
+export const searchNameIndexWithScores = <T>(
+  nameIndex: NameIndex<T>,
+  query: string,
+  fuzzy = false,
+): ScoredObject<T>[] => {
+  const queryTokens = Array.from(new Set(tokenise(query)));
+  if (queryTokens.length === 0) {
+    return [];
+  }
+
+  let totals: Map<T, number> | undefined;
+
+  for (const queryToken of queryTokens) {
+    const scores = scoreQueryToken(nameIndex, queryToken, fuzzy);
+    if (!totals) {
+      totals = scores;
+      continue;
+    }
+
+    const combined = new Map<T, number>();
+    for (const [object, total] of totals) {
+      const score = scores.get(object);
+      if (score !== undefined) {
+        combined.set(object, total + score);
+      }
+    }
+    totals = combined;
+  }
+
+  // Map iteration follows insertion order, which follows the dataset's order
+  return sortByScore(
+    Array.from(totals || [], ([object, total]) => ({
+      object,
+      score: total / queryTokens.length,
+    })),
+  );
+};
+
+/**
+ * Searches a name index, returning the matching objects most relevant first.
+ * See `searchNameIndexWithScores`.
+ */
+export const searchNameIndex = <T>(nameIndex: NameIndex<T>, query: string): T[] =>
+  searchNameIndexWithScores(nameIndex, query).map(({ object }) => object);
+
+/**
+ * Finds objects whose IATA codes are within a few edits of a full or partial
+ * code (e.g. "LRH" finds "LHR"), scored by how close they are. Partial codes
+ * are compared against the start of each code.
+ */
+export const fuzzyFilterObjectsByIataCode = <T extends ObjectWithIataCode>(
+  objects: T[],
+  partialIataCode: string,
+  iataCodeLength: number,
+): ScoredObject<T>[] => {
+  const normalizedQuery = partialIataCode.toLowerCase();
+  const maxDistance = getMaxEditDistance(normalizedQuery);
+  if (normalizedQuery.length === 0 || normalizedQuery.length > iataCodeLength) {
+    return [];
+  }
+
+  const results: ScoredObject<T>[] = [];
+  for (const object of objects) {
+    const code = object.iataCode.toLowerCase().slice(0, normalizedQuery.length);
+    const distance = editDistance(normalizedQuery, code);
+    if (distance <= maxDistance) {
+      results.push({ object, score: distanceToScore(distance, normalizedQuery) });
+    }
+  }
+
+  return sortByScore(results);
+};
+
+/**
+ * Lazily creates and memoizes a Map from a unique key (e.g. an ID) to the
+ * object with that key, for exact lookups, in the same way as
+ * `createPrefixMapGetter`.
+ */
+export const createLookupMapGetter = <T>(
+  loader: () => T[],
+  getKey: (object: T) => string,
+): (() => Map<string, T>) =>
+  memoizeForObjects(
+    loader,
+    (objects) => new Map(objects.map((object) => [getKey(object), object])),
+  );
+
+// A code other than the IATA code which a dataset can be searched by
+export interface SearchableCode<T> {
+  getPrefixMap: () => Map<string, T[]>;
+  codeLength: number;
+}
+
+// Everything needed to search one of the datasets
+export interface SearchableDataset<T extends ObjectWithIataCode> {
+  getObjects: () => T[];
+  getPrefixMap: () => Map<string, T[]>;
+  getNameIndex: () => NameIndex<T>;
+  // Keyed by uppercase IATA code
+  getIataCodeMap: () => Map<string, T>;
+  // Only set for datasets whose records have Duffel IDs
+  getIdMap?: () => Map<string, T>;
+  iataCodeLength: number;
+  // Only set for datasets which have ICAO codes
+  icao?: SearchableCode<T>;
+}
+
+/**
+ * Finds the object with exactly the given IATA code, ignoring case.
+ */
+export const findByIataCode = <T extends ObjectWithIataCode>(
+  dataset: SearchableDataset<T>,
+  iataCode: string,
+): T | undefined => dataset.getIataCodeMap().get(iataCode.toUpperCase());
+
+/**
+ * Finds the object with exactly the given Duffel ID (e.g. `arp_lhr_gb`).
+ */
+export const findById = <T extends ObjectWithIataCode>(
+  dataset: SearchableDataset<T>,
+  id: string,
+): T | undefined => dataset.getIdMap?.().get(id);
+
+// The longest code or name which can be searched for, since fuzzy name search
+// compares every word searched for against every word in the name index
+export const MAX_SEARCH_TEXT_LENGTH = 100;
+
+export interface SearchOptions {
+  // A full or partial IATA code
+  query?: string;
+  // Words to look for in names
+  name?: string;
+  // A full or partial ICAO code
+  icao?: string;
+}
+
+const isPresent = (value: string | undefined): value is string =>
+  value !== undefined && value !== '';
+
+// Looks up the objects matching each of the full or partial codes in the search
+// options, returning one list per code searched for
+const findObjectsByPartialCodes = <T extends ObjectWithIataCode>(
+  dataset: SearchableDataset<T>,
+  { query, icao }: SearchOptions,
+): T[][] => {
+  const matches: T[][] = [];
+
+  if (isPresent(query)) {
+    matches.push(
+      filterObjectsByPartialIataCode(
+        dataset.getPrefixMap(),
+        query,
+        dataset.iataCodeLength,
+      ),
+    );
+  }
+
+  if (isPresent(icao)) {
+    matches.push(
+      dataset.icao
+        ? filterObjectsByPartialIataCode(
+            dataset.icao.getPrefixMap(),
+            icao,
+            dataset.icao.codeLength,
+          )
+        : [],
+    );
+  }
+
+  return matches;
+};
+
+// Keeps only the results which appear in every one of `matches`
+const intersect = <R, T>(
+  results: R[],
+  matches: T[][],
+  getObject: (result: R) => T,
+): R[] =>
+  matches.reduce((filtered, objects) => {
+    const set = new Set(objects);
+    return filtered.filter((result) => set.has(getObject(result)));
+  }, results);
+
+/**
+ * Searches a dataset by partial IATA code, partial ICAO code and/or name. If
+ * more than one is given, only objects matching all of them are returned, in
+ * order of name relevance if searching by name. If none are given, the whole
+ * dataset is returned.
+ */
+export const searchDataset = <T extends ObjectWithIataCode>(
+  dataset: SearchableDataset<T>,
+  options: SearchOptions,
+): T[] => {
+  const codeMatches = findObjectsByPartialCodes(dataset, options);
+
+  if (isPresent(options.name)) {
+    const results = searchNameIndex(dataset.getNameIndex(), options.name);
+    return intersect(results, codeMatches, (object) => object);
+  }
+
+  const [results, ...otherCodeMatches] = codeMatches;
+  if (!results) {
+    return dataset.getObjects();
+  }
+  return intersect(results, otherCodeMatches, (object) => object);
+};
+
+/**
+ * Like `searchDataset`, but tolerates typos in both the IATA code and the name,
+ * returning scored results, best first. When searching by both, an object's
+ * score is the product of its two scores. ICAO codes still have to match
+ * exactly.
+ */
+export const fuzzySearchDataset = <T extends ObjectWithIataCode>(
+  dataset: SearchableDataset<T>,
+  { query, name, icao }: SearchOptions,
+): ScoredObject<T>[] => {
+  const icaoMatches = findObjectsByPartialCodes(dataset, { icao });
+  const codeResults = isPresent(query)
+    ? fuzzyFilterObjectsByIataCode(dataset.getObjects(), query, dataset.iataCodeLength)
+    : undefined;
+
+  let results: ScoredObject<T>[];
+  if (!isPresent(name)) {
+    results = codeResults || dataset.getObjects().map((object) => ({ object, score: 1 }));
+  } else if (!codeResults) {
+    results = searchNameIndexWithScores(dataset.getNameIndex(), name, true);
+  } else {
+    const codeScores = new Map(codeResults.map(({ object, score }) => [object, score]));
+    results = sortByScore(
+      searchNameIndexWithScores(dataset.getNameIndex(), name, true)
+        .filter(({ object }) => codeScores.has(object))
+        .map(({ object, score }) => ({
+          object,
+          score: score * (codeScores.get(object) as number),
+        })),
+    );
+  }
+
+  return intersect(results, icaoMatches, ({ object }) => object);
+};
@@ -0,0 +1,276 @@
+// Creating `Intl.DateTimeFormat`s is expensive, so we create one per time zone
+// and reuse it
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getOffsetFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      timeZoneName: 'longOffset',
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Returns the offset from UTC, in minutes, of an IANA time zone (e.g.
+ * `Europe/London`) at the given moment. Daylight saving time is taken into
+ * account, so the result depends on `date`.
+ */
+export const getUtcOffsetMinutes = (
+  timeZone: string,
+  date: Date = new Date(),
+): number => {
+  const timeZoneName = getOffsetFormatter(timeZone)
+    .formatToParts(date)
+    .find((part) => part.type === 'timeZoneName')?.value;
+
+  // The offset is formatted like "GMT+05:30", or just "GMT" when it is zero
+  const match = /^GMT([+-])(\d{2}):(\d{2})$/.exec(timeZoneName || '');
+  if (!match) {
+    return 0;
+  }
+
+  const [, sign, hours, minutes] = match;
+  return (sign === '-' ? -1 : 1) * (parseInt(hours, 10) * 60 + parseInt(minutes, 10));
+};
+
+/**
+ * Formats an offset from UTC in minutes like "+05:30" or "-04:00".
+ */
+export const formatUtcOffset = (offsetMinutes: number): string => {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absoluteMinutes = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(absoluteMinutes / 60)).padStart(2, '0');
+  const minutes = String(absoluteMinutes % 60).padStart(2, '0');
+  return `${sign}${hours}:${minutes}`;
+};
+
+const ONE_MINUTE_IN_MS = 60 * 1000;
+const ONE_DAY_IN_MS = 24 * 60 * ONE_MINUTE_IN_MS;
+// How far ahead to look for the next daylight saving time transition. Time
+// zones which observe it change at least twice a year.
+const TRANSITION_SEARCH_DAYS = 370;
+
+/**
+ * Returns whether an IANA time zone is observing daylight saving time at the
+ * given moment. The standard offset is taken to be the smaller of the offsets
+ * in January and July, which works in both hemispheres.
+ */
+export const isDaylightSavingTime = (
+  timeZone: string,
+  date: Date = new Date(),
+): boolean => {
+  const year = date.getUTCFullYear();
+  const standardOffsetMinutes = Math.min(
+    getUtcOffsetMinutes(timeZone, new Date(Date.UTC(year, 0, 1))),
+    getUtcOffsetMinutes(timeZone, new Date(Date.UTC(year, 6, 1))),
+  );
+
+  return getUtcOffsetMinutes(timeZone, date) > standardOffsetMinutes;
+};
+
+// Whether a time zone changes its clocks in the given year or the next one
+const observesDaylightSavingTime = (timeZone: string, year: number): boolean =>
+  [year, year + 1].some(
+    (y) =>
+      getUtcOffsetMinutes(timeZone, new Date(Date.UTC(y, 0, 1))) !==
+      getUtcOffsetMinutes(timeZone, new Date(Date.UTC(y, 6, 1))),
+  );
+
+/**
+ * Finds the next moment after `date` when an IANA time zone's offset from UTC
+ * changes for daylight saving time, or `null` if it doesn't observe it. Steps
+ * forward a day at a time, then narrows down to the exact minute with a binary
+ * search.
+ */
+export const findNextUtcOffsetTransition = (
+  timeZone: string,
+  date: Date = new Date(),
+): Date | null => {
+  if (!observesDaylightSavingTime(timeZone, date.getUTCFullYear())) {
+    return null;
+  }
+
+  const startOffsetMinutes = getUtcOffsetMinutes(timeZone, date);
+  let before = date.getTime();
+
+  for (let day = 1; day <= TRANSITION_SEARCH_DAYS; day++) {
+    const after = date.getTime() + day * ONE_DAY_IN_MS;
+    if (getUtcOffsetMinutes(timeZone, new Date(after)) === startOffsetMinutes) {
+      before = after;
+      continue;
+    }
+
+    // Clocks change on the minute, so the transition is the first minute with
+    // the new offset
+    let low = Math.floor(before / ONE_MINUTE_IN_MS);
+    let high = Math.ceil(after / ONE_MINUTE_IN_MS);
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      if (
+        getUtcOffsetMinutes(timeZone, new Date(middle * ONE_MINUTE_IN_MS)) ===
+        startOffsetMinutes
+      ) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    return new Date(high * ONE_MINUTE_IN_MS);
+  }
+
+  return null;
+};
+
+// Formatters for local dates and times, cached in the same way as
+// `offsetFormatters`
+const dateTimeFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getDateTimeFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = dateTimeFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+    dateTimeFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Formats a moment as an ISO 8601 local date and time in an IANA time zone,
+ * including the offset from UTC (e.g. `2026-07-15T13:00:00+01:00`).
+ */
+export const formatLocalDateTime = (timeZone: string, date: Date): string => {
+  const parts = Object.fromEntries(
+    getDateTimeFormatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+  const offset = formatUtcOffset(getUtcOffsetMinutes(timeZone, date));
+
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}${offset}`;
+};
+
+// A local date and time without an offset, e.g. "2026-03-29T10:30" or
+// "2026-03-29T10:30:00"
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+/**
+ * Works out the moment when a local date and time without an offset (e.g.
+ * `2026-03-29T10:30`) happens in an IANA time zone, or returns `null` if it
+ * isn't a valid date and time.
+ *
+ * Times which happen twice when the clocks go back resolve to the first, and
+ * times which are skipped when the clocks go forward are moved forward by the
+ * change, as most calendar software does.
+ */
+export const parseLocalDateTime = (
+  timeZone: string,
+  localDateTime: string,
+): Date | null => {
+  const match = LOCAL_DATE_TIME_PATTERN.exec(localDateTime);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day, hour, minute, second] = match
+    .slice(1)
+    .map((value) => parseInt(value ?? '0', 10));
+  const localTimestamp = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // `Date.UTC` accepts out of range values like a 13th month, so check that
+  // nothing rolled over
+  const localDate = new Date(localTimestamp);
+  if (
+    localDate.getUTCFullYear() !== year ||
+    localDate.getUTCMonth() !== month - 1 ||
+    localDate.getUTCDate() !== day ||
+    localDate.getUTCHours() !== hour ||
+    localDate.getUTCMinutes() !== minute
+  ) {
+    return null;
+  }
+
+  // The offset can only be the one in force a day either side
+  const candidates = [
+    getUtcOffsetMinutes(timeZone, new Date(localTimestamp - ONE_DAY_IN_MS)),
+    getUtcOffsetMinutes(timeZone, new Date(localTimestamp + ONE_DAY_IN_MS)),
+  ].map((offsetMinutes) => ({
+    offsetMinutes,
+    timestamp: localTimestamp - offsetMinutes * ONE_MINUTE_IN_MS,
+  }));
+
+  const matchingTimestamps = candidates
+    .filter(
+      ({ offsetMinutes, timestamp }) =>
+        getUtcOffsetMinutes(timeZone, new Date(timestamp)) === offsetMinutes,
+    )
+    .map(({ timestamp }) => timestamp);
+
+  return new Date(
+    matchingTimestamps.length > 0
+      ? Math.min(...matchingTimestamps)
+      : candidates[0].timestamp,
+  );
+};
+
+export interface UtcOffsetTransition {
+  // When the offset changes, in UTC
+  at: string;
+  // The offset after the change, formatted like "+01:00"
+  utcOffset: string;
+  utcOffsetMinutes: number;
+  isDst: boolean;
+}
+
+export interface LocalTime {
+  timeZone: string;
+  // An ISO 8601 local date and time with the offset, e.g. "2026-07-15T13:00:00+01:00"
+  localTime: string;
+  // Formatted like "+01:00"
+  utcOffset: string;
+  utcOffsetMinutes: number;
+  isDst: boolean;
+  // `null` for time zones which don't observe daylight saving time
+  nextTransition: UtcOffsetTransition | null;
+}
+
+/**
+ * Returns the local time in an IANA time zone at the given moment, along with
+ * its offset from UTC, whether daylight saving time is in force and when the
+ * clocks next change.
+ */
+export const getLocalTime = (timeZone: string, date: Date = new Date()): LocalTime => {
+  const utcOffsetMinutes = getUtcOffsetMinutes(timeZone, date);
+  const transition = findNextUtcOffsetTransition(timeZone, date);
+  const transitionOffsetMinutes = transition && getUtcOffsetMinutes(timeZone, transition);
+
+  return {
+    timeZone,
+    localTime: formatLocalDateTime(timeZone, date),
+    utcOffset: formatUtcOffset(utcOffsetMinutes),
+    utcOffsetMinutes,
+    isDst: isDaylightSavingTime(timeZone, date),
+    nextTransition:
+      transition && transitionOffsetMinutes !== null
+        ? {
+            at: transition.toISOString(),
+            utcOffset: formatUtcOffset(transitionOffsetMinutes),
+            utcOffsetMinutes: transitionOffsetMinutes,
+            isDst: isDaylightSavingTime(timeZone, transition),
+          }
+        : null,
+  };
+};
@@ -5,7 +5,18 @@ export interface City {
   iataCountryCode: string;
 }
 
-export interface Airport {
+// When a record was valid from and to, as inclusive YYYY-MM-DD dates. Most
+// records have neither, because they've always been valid.
+export interface ValidityPeriod {
+  validFrom?: string | null;
+  validTo?: string | null;
+}
+
+// Records from our own overlays, rather than from the Duffel API, are marked as
+// such
+export type RecordSource = 'overlay';
+
+export interface Airport extends ValidityPeriod {
   timeZone: string;
   name: string;
   longitude: number;
@@ -14,20 +25,49 @@ export interface Airport {
   icaoCode: string;
   iataCode: string;
   iataCountryCode: string;
+  iataCityCode: string;
   cityName: string;
   city: City | null;
+  // Only set on airports which were added or changed by an overlay
+  source?: RecordSource;
 }
 
-export interface Aircraft {
+export type AircraftBodyType = 'wide' | 'narrow';
+
+export type AircraftEngineType = 'jet' | 'turboprop' | 'piston' | 'helicopter';
+
+export interface Aircraft extends ValidityPeriod {
   iataCode: string;
   id: string;
   name: string;
+  icaoCode: string | null;
+  manufacturer: string | null;
+  family: string | null;
+  bodyType: AircraftBodyType | null;
+  engineType: AircraftEngineType | null;
+  discontinued: boolean;
+  // Only set on aircraft which were added or changed by an overlay
+  source?: RecordSource;
 }
 
-export interface Airline {
+export interface Airline extends ValidityPeriod {
   id: string;
   name: string;
   iataCode: string;
+  icaoCode: string | null;
+  logoSymbolUrl: string | null;
+  logoLockupUrl: string | null;
+  conditionsOfCarriageUrl: string | null;
+  // Only set on airlines which were added or changed by an overlay
+  source?: RecordSource;
+}
+
+export interface Country {
+  iataCode: string;
+  name: string;
+  continent: string;
+  currencyCode: string;
+  airportCount: number;
 }
 
 export interface ObjectWithIataCode {
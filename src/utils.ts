@@ -1,5 +1,25 @@
 const memo = new Map<string, string>();
 
+/**
+ * Lazily builds something from a list of objects (e.g. an index), memoizing it
+ * until the loader returns a different list, like it does after the data is
+ * reloaded.
+ */
+export const memoizeForObjects = <T, R>(
+  loader: () => T[],
+  build: (objects: T[]) => R,
+): (() => R) => {
+  let memoized: { objects: T[]; value: R } | undefined;
+
+  return (): R => {
+    const objects = loader();
+    if (!memoized || memoized.objects !== objects) {
+      memoized = { objects, value: build(objects) };
+    }
+    return memoized.value;
+  };
+};
+
 const snakeCaseToCamelCase = (string: string): string => {
   const cached = memo.get(string);
   if (cached !== undefined) {
@@ -28,3 +48,34 @@ export const cameliseKeys = (object: object): object => {
 
   return result;
 };
+
+const camelCaseToSnakeCase = (string: string): string =>
+  string.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+
+/**
+ * Converts the keys of an object from camel case to snake case, the opposite of
+ * `cameliseKeys`.
+ */
+export const snakeCaseKeys = (object: object): object =>
+  Object.fromEntries(
+    Object.entries(object).map(([key, value]) => [camelCaseToSnakeCase(key), value]),
+  );
+
+/**
+ * Lowercases a string and strips accents and other diacritics, so that
+ * "Zürich" and "zurich" compare equal.
+ */
+export const normaliseText = (string: string): string =>
+  string
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+/**
+ * Splits a string into normalised alphanumeric tokens (e.g. "São Paulo–Guarulhos"
+ * becomes `['sao', 'paulo', 'guarulhos']`).
+ */
+export const tokenise = (string: string): string[] =>
+  normaliseText(string)
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0);